@@ -0,0 +1,181 @@
+import React from 'react';
+import { componentRegistry } from './ReactComponentRegistry';
+import { ReactErrorBoundary } from './ErrorBoundary';
+import type {
+  IComponentDefinition,
+  IComponentQuery,
+  IComponentRegistry,
+} from '../interfaces/IComponentRegistry';
+
+type ComponentExample = NonNullable<
+  NonNullable<IComponentDefinition['metadata']>['examples']
+>[number];
+
+export interface ComponentGalleryProps {
+  registry?: IComponentRegistry;
+  // Only show these components (in this order); otherwise every component matching the query
+  components?: string[];
+  query?: IComponentQuery;
+  // Show the JSON props editor next to each example
+  editable?: boolean;
+}
+
+// A single example rendered in its own error boundary, with an optional props editor
+const GalleryExample: React.FC<{
+  definition: IComponentDefinition;
+  example: ComponentExample;
+  registry: IComponentRegistry;
+  editable: boolean;
+}> = ({ definition, example, registry, editable }) => {
+  const initialSource = React.useMemo(
+    () => JSON.stringify(example.props || {}, null, 2),
+    [example.props]
+  );
+  const [source, setSource] = React.useState(initialSource);
+  const [props, setProps] = React.useState<Record<string, unknown>>(example.props || {});
+  const [parseError, setParseError] = React.useState<string | null>(null);
+
+  const Component = React.useMemo(
+    () => registry.resolveComponent(definition.name),
+    [registry, definition]
+  );
+  const validation = React.useMemo(
+    () => registry.validateProps(definition.name, props),
+    [registry, definition.name, props]
+  );
+
+  const handleChange = (value: string) => {
+    setSource(value);
+    try {
+      const parsed = JSON.parse(value || '{}');
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Props must be a JSON object');
+      }
+      setProps(parsed);
+      setParseError(null);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const reset = () => {
+    setSource(initialSource);
+    setProps(example.props || {});
+    setParseError(null);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md" data-gallery-example={example.name}>
+      <div className="px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <h4 className="text-sm font-medium text-gray-900">{example.name}</h4>
+        {example.description && <p className="text-xs text-gray-600">{example.description}</p>}
+      </div>
+      <div className={editable ? 'grid grid-cols-2 gap-4 p-4' : 'p-4'}>
+        <div className="min-w-0">
+          {!Component ? (
+            <p className="text-sm text-yellow-800">Component could not be created</p>
+          ) : !validation.valid ? (
+            <ul className="text-sm text-red-600">
+              {validation.errors.map((error, index) => (
+                <li key={index}>
+                  <code>{error.path || 'props'}</code>: {error.message}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            // Re-keyed on every edit so a crashed example retries with the new props
+            <ReactErrorBoundary key={source}>
+              <React.Suspense fallback={<div>Loading...</div>}>
+                <Component {...validation.value} />
+              </React.Suspense>
+            </ReactErrorBoundary>
+          )}
+        </div>
+        {editable && (
+          <div className="min-w-0">
+            <textarea
+              aria-label={`${definition.name} ${example.name} props`}
+              className="w-full h-40 font-mono text-xs border border-gray-300 rounded-md p-2"
+              value={source}
+              onChange={event => handleChange(event.target.value)}
+            />
+            {parseError && <p className="text-xs text-red-600 mt-1">{parseError}</p>}
+            <button
+              type="button"
+              onClick={reset}
+              className="mt-2 px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Reset
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Living style guide: renders the metadata.examples of registered components
+export const ComponentGallery: React.FC<ComponentGalleryProps> = ({
+  registry = componentRegistry,
+  components,
+  query,
+  editable = true,
+}) => {
+  const definitions = React.useMemo(
+    () =>
+      components
+        ? components
+            .map(name => registry.get(name))
+            .filter((definition): definition is IComponentDefinition => !!definition)
+        : registry.query(query).items,
+    [registry, components, query]
+  );
+
+  if (definitions.length === 0) {
+    return <p className="text-sm text-gray-600">No components to show.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {definitions.map(definition => {
+        // Components without examples are shown once with their default props
+        const examples = definition.metadata?.examples?.length
+          ? definition.metadata.examples
+          : [{ name: 'Default', props: {} }];
+
+        return (
+          <section key={definition.name} data-gallery-component={definition.name}>
+            <header className="mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">{definition.name}</h3>
+              {definition.metadata?.description && (
+                <p className="text-sm text-gray-600">{definition.metadata.description}</p>
+              )}
+              {definition.metadata?.tags && definition.metadata.tags.length > 0 && (
+                <div className="flex gap-1 mt-1">
+                  {definition.metadata.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 text-xs bg-gray-100 rounded">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </header>
+            <div className="space-y-4">
+              {examples.map(example => (
+                <GalleryExample
+                  key={example.name}
+                  definition={definition}
+                  example={example}
+                  registry={registry}
+                  editable={editable}
+                />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ComponentGallery;
@@ -0,0 +1,122 @@
+import React from 'react';
+import type { IErrorFallbackProps } from '../interfaces/IComponentRegistry';
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY = 500;
+
+// Default error UI: hides the error message in production mode
+export const DefaultErrorFallback: React.FC<IErrorFallbackProps> = ({
+  error,
+  retry,
+  retrying,
+  production,
+}) => (
+  <div className="p-4 border border-red-300 rounded-md bg-red-50" role="alert">
+    <h3 className="text-red-800 font-medium">Component Error</h3>
+    <p className="text-red-600 text-sm mt-1">
+      {production
+        ? 'An unexpected error occurred'
+        : error.message || 'An unexpected error occurred'}
+    </p>
+    {retry && (
+      <button
+        onClick={retry}
+        disabled={retrying}
+        className="mt-2 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 disabled:opacity-50"
+      >
+        {retrying ? 'Retrying...' : 'Retry'}
+      </button>
+    )}
+  </div>
+);
+
+export interface ReactErrorBoundaryProps {
+  children: React.ReactNode;
+  onError?: (error: Error, errorInfo?: React.ErrorInfo) => void;
+  fallback?: React.ComponentType<IErrorFallbackProps>;
+  componentName?: string;
+  // Retries allowed before the fallback stops offering one
+  maxRetries?: number;
+  // Delay before the first retry, doubled for every further retry
+  retryDelay?: number;
+  production?: boolean;
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+  error?: Error;
+  attempts: number;
+  retrying: boolean;
+}
+
+export class ReactErrorBoundary extends React.Component<
+  ReactErrorBoundaryProps,
+  ErrorBoundaryState
+> {
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(props: ReactErrorBoundaryProps) {
+    super(props);
+    this.state = { hasError: false, attempts: 0, retrying: false };
+  }
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { hasError: true, error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
+    console.error('React component error:', error, errorInfo);
+    this.props.onError?.(error, errorInfo);
+  }
+
+  componentWillUnmount() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+  }
+
+  private retry = () => {
+    const { maxRetries = DEFAULT_MAX_RETRIES, retryDelay = DEFAULT_RETRY_DELAY } = this.props;
+    if (this.state.retrying || this.state.attempts >= maxRetries) return;
+
+    this.setState({ retrying: true });
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.setState(state => ({
+          hasError: false,
+          error: undefined,
+          retrying: false,
+          attempts: state.attempts + 1,
+        }));
+      },
+      retryDelay * 2 ** this.state.attempts
+    );
+  };
+
+  render() {
+    if (this.state.hasError && this.state.error) {
+      const {
+        fallback: Fallback = DefaultErrorFallback,
+        componentName,
+        maxRetries = DEFAULT_MAX_RETRIES,
+        production = false,
+      } = this.props;
+
+      return (
+        <Fallback
+          error={this.state.error}
+          componentName={componentName}
+          retry={this.state.attempts < maxRetries ? this.retry : undefined}
+          retrying={this.state.retrying}
+          attempts={this.state.attempts}
+          production={production}
+        />
+      );
+    }
+
+    return this.props.children;
+  }
+}
+
+export default ReactErrorBoundary;
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRenderContainer } from './UniversalReactRenderer';
+
+export type LivewireWire = NonNullable<
+  ReturnType<NonNullable<(typeof window)['Livewire']>['find']>
+>;
+
+// When React writes reach Livewire, like wire:model's modifiers: 'deferred' sends them with the
+// next request, 'live' right away (debounced), 'blur' once commit() is called
+export type EntangleMode = 'deferred' | 'live' | 'blur';
+
+export interface EntangleOptions {
+  mode?: EntangleMode;
+  // Debounce of 'live' writes in milliseconds
+  debounce?: number;
+}
+
+export interface EntangleControls {
+  // Send a pending 'blur' (or debounced 'live') write now
+  commit: () => void;
+  // Whether a Livewire component was found for the container
+  connected: boolean;
+}
+
+const DEFAULT_LIVE_DEBOUNCE = 150;
+
+// Hooks waiting for the server values of the Livewire component (root element) they are bound to
+const serverValueListeners: Set<(root: Element, wire: Pick<LivewireWire, 'get'>) => void> =
+  new Set();
+// Whether server values arrive through the Filament adapter's Livewire commit hook
+let commitHookActive = false;
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Find the root element of the Livewire component an element is rendered in
+ */
+export function findLivewireRoot(element: Element | null | undefined): Element | null {
+  return element?.closest('[wire\\:id]') ?? null;
+}
+
+/**
+ * Find the $wire of the Livewire component an element is rendered in
+ */
+export function findLivewireComponent(element: Element | null | undefined): LivewireWire | null {
+  const id = findLivewireRoot(element)?.getAttribute('wire:id');
+
+  return (id && window.Livewire?.find(id)) || null;
+}
+
+/**
+ * Deliver the server values of a Livewire component to every hook bound to it, whatever its
+ * state path. Called by the Filament adapter's Livewire commit hook after every successful commit.
+ */
+export function deliverServerValues(root: Element, wire: Pick<LivewireWire, 'get'>): void {
+  serverValueListeners.forEach(listener => listener(root, wire));
+}
+
+/**
+ * Mark whether the commit hook delivers server values; hooks mounted while it does skip
+ * $wire.$watch, which would report the same values again
+ */
+export function setCommitHookActive(active: boolean): void {
+  commitHookActive = active;
+}
+
+/**
+ * Two-way binding between component state and a Livewire property.
+ * Defaults to the container's data-react-state-path; outside Livewire it behaves like useState.
+ *
+ * @example
+ * const [title, setTitle, { commit }] = useEntangle<string>('data.title', { mode: 'blur' });
+ * <input value={title} onChange={e => setTitle(e.target.value)} onBlur={commit} />
+ */
+export function useEntangle<T = unknown>(
+  statePath?: string,
+  options: EntangleOptions = {}
+): [T, (value: T | ((prev: T) => T)) => void, EntangleControls] {
+  const { mode = 'deferred', debounce = DEFAULT_LIVE_DEBOUNCE } = options;
+  const container = useRenderContainer();
+  const path = statePath ?? container?.statePath;
+  const containerId = container?.containerId;
+
+  const root = useMemo(
+    () => (path && containerId ? findLivewireRoot(document.getElementById(containerId)) : null),
+    [path, containerId]
+  );
+  const wire = useMemo(() => findLivewireComponent(root), [root]);
+
+  const [value, setLocalValue] = useState<T>(
+    () => (wire && path ? wire.get(path) : undefined) as T
+  );
+  const valueRef = useRef(value);
+  // A React write Livewire has not received yet; server values must not overwrite it
+  const pendingRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const send = useCallback(
+    (live: boolean) => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      pendingRef.current = false;
+
+      if (wire && path) {
+        try {
+          void wire.set(path, valueRef.current, live);
+        } catch (error) {
+          console.error(`Failed to set Livewire property "${path}":`, error);
+        }
+      }
+    },
+    [wire, path]
+  );
+
+  const setValue = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      const resolved =
+        typeof next === 'function' ? (next as (prev: T) => T)(valueRef.current) : next;
+      valueRef.current = resolved;
+      setLocalValue(resolved);
+
+      if (!wire || !path) return;
+
+      if (mode === 'deferred') {
+        send(false);
+        return;
+      }
+
+      pendingRef.current = true;
+      if (mode === 'live') {
+        if (timerRef.current) {
+          clearTimeout(timerRef.current);
+        }
+        timerRef.current = setTimeout(() => send(true), debounce);
+      }
+    },
+    [wire, path, mode, debounce, send]
+  );
+
+  const commit = useCallback(() => {
+    if (pendingRef.current) {
+      send(true);
+    }
+  }, [send]);
+
+  // Push server values (from the commit hook, $wire.$watch or a livewire:update event) into the
+  // component
+  useEffect(() => {
+    if (!path) return undefined;
+
+    let active = true;
+    const receive = (next: unknown) => {
+      if (!active || pendingRef.current || isEqual(next, valueRef.current)) return;
+      valueRef.current = next as T;
+      setLocalValue(next as T);
+    };
+
+    const handleServerValues = (committed: Element, committedWire: Pick<LivewireWire, 'get'>) => {
+      if (committed === root) receive(committedWire.get(path));
+    };
+    serverValueListeners.add(handleServerValues);
+    const unwatch = commitHookActive ? undefined : wire?.$watch?.(path, receive);
+
+    const handleUpdate = (event: Event) => {
+      const detail = (event as CustomEvent).detail || {};
+      if (detail.statePath && detail.statePath !== path) return;
+
+      if ('value' in detail) {
+        receive(detail.value);
+      } else if (wire) {
+        receive(wire.get(path));
+      }
+    };
+    document.addEventListener('livewire:update', handleUpdate);
+
+    return () => {
+      active = false;
+      serverValueListeners.delete(handleServerValues);
+      if (typeof unwatch === 'function') {
+        unwatch();
+      }
+      document.removeEventListener('livewire:update', handleUpdate);
+    };
+  }, [root, wire, path]);
+
+  // Writes still waiting on their debounce or blur are sent when the component unmounts
+  useEffect(
+    () => () => {
+      if (pendingRef.current) {
+        send(true);
+      }
+    },
+    [send]
+  );
+
+  return [value, setValue, { commit, connected: !!wire }];
+}
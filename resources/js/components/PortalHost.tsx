@@ -0,0 +1,70 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { createRoot, Root } from 'react-dom/client';
+
+// The part of a React root the renderer uses, implemented by real roots and portal roots
+export type ContainerRoot = Pick<Root, 'render' | 'unmount'>;
+
+/**
+ * Renders many containers from a single shared React root through portals,
+ * so they share one tree (and its providers) instead of paying for a root each
+ */
+export class PortalHost {
+  private root: Root | null = null;
+  private host: HTMLElement | null = null;
+  private portals: Map<string, { container: HTMLElement; children: React.ReactNode }> = new Map();
+
+  // wrap renders the shared providers once around every portal
+  constructor(
+    private wrap: (children: React.ReactNode) => React.ReactNode = children => children
+  ) {}
+
+  /**
+   * Create a root-like handle that renders into the container through the shared root
+   */
+  createRoot(containerId: string, container: HTMLElement): ContainerRoot {
+    return {
+      render: children => {
+        this.portals.set(containerId, { container, children });
+        this.flush();
+      },
+      unmount: () => {
+        if (this.portals.delete(containerId)) {
+          this.flush();
+        }
+      },
+    };
+  }
+
+  has(containerId: string): boolean {
+    return this.portals.has(containerId);
+  }
+
+  getContainerIds(): string[] {
+    return Array.from(this.portals.keys());
+  }
+
+  private flush(): void {
+    if (!this.root || !this.host) {
+      this.host = document.createElement('div');
+      this.host.dataset.reactWrapperPortalHost = 'true';
+      this.host.style.display = 'none';
+      document.body.appendChild(this.host);
+      this.root = createRoot(this.host);
+    } else if (!this.host.isConnected) {
+      // The host was removed with the page body (e.g. by wire:navigate). Moving it into the new
+      // body keeps the root, so portals in containers that survived the swap keep their state.
+      document.body.appendChild(this.host);
+    }
+
+    this.root.render(
+      this.wrap(
+        <>
+          {Array.from(this.portals, ([containerId, { container, children }]) =>
+            createPortal(children, container, containerId)
+          )}
+        </>
+      )
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { universalReactRenderer } from './UniversalReactRenderer';
+import { ComponentGallery, type ComponentGalleryProps } from './ComponentGallery';
 import {
   IComponentRegistry,
   IComponentDefinition,
@@ -9,9 +10,30 @@ import {
   IComponentContext,
   IHookManager,
   IEventSystem,
+  IPropValidationResult,
+  IDependencyGraphSnapshot,
+  IRegistryExtension,
+  IComponentFactory,
+  IComponentModuleMeta,
+  IDiscoveredModule,
+  IAutoDiscoverOptions,
+  IComponentQuery,
+  IComponentQueryResult,
+  IComponentCatalog,
+  IComponentManifest,
+  IManifestDiff,
+  IFromManifestOptions,
+  IComponentAlias,
+  IComponentAliasOptions,
 } from '../interfaces/IComponentRegistry';
 import { EventSystem } from '../services/EventSystem';
-// import { ComponentFactoryManager } from "../factories/ComponentFactory";
+import { propValidationService } from '../services/PropValidationService';
+import { DependencyGraph, DependencyCycleError } from '../services/DependencyGraph';
+import { codeSplittingService } from '../services/CodeSplittingService';
+import { ComponentFactoryManager } from '../factories/ComponentFactory';
+import { componentCatalogService } from '../services/ComponentCatalogService';
+import { registryManifestService } from '../services/RegistryManifestService';
+import { devTools } from '../services/DevTools';
 
 // Type aliases for backward compatibility
 export type ReactComponentDefinition = IComponentDefinition;
@@ -26,108 +48,574 @@ export type HookManager = IHookManager;
 // Enhanced React Component Registry with SOLID principles
 class ReactComponentRegistry implements IComponentRegistry {
   private components: Map<string, IComponentDefinition> = new Map();
+  // Definitions as registered, before middleware, so they can be re-processed on replace()
+  private sources: Map<string, IComponentDefinition> = new Map();
+  private aliases: Map<string, IComponentAlias> = new Map();
+  // Deprecated aliases that have already been warned about
+  private warnedAliases: Set<string> = new Set();
   private events: IEventSystem = new EventSystem();
-  private extensions: Map<string, unknown> = new Map();
+  private extensions: Map<
+    string,
+    {
+      extension: IRegistryExtension;
+      middleware: IComponentMiddleware[];
+      hooks: Array<{ event: string; callback: (data?: unknown) => unknown }>;
+    }
+  > = new Map();
   private middleware: Array<IComponentMiddleware> = [];
-  // Component factory for future extensibility
-  // private componentFactory: ComponentFactoryManager =
-  //   new ComponentFactoryManager();
+  private pending: Map<string, Promise<IComponentDefinition>> = new Map();
+  private deferred: Map<
+    string,
+    {
+      definition: IComponentDefinition;
+      registration: Promise<IComponentDefinition>;
+      resolve: (registration: Promise<IComponentDefinition>) => void;
+    }
+  > = new Map();
+  private dependencyGraph: DependencyGraph = new DependencyGraph();
+  private readonly parent?: ReactComponentRegistry;
+  private readonly scope: string;
+  // Removes this registry's listener from its parent
+  private releaseParent?: () => void;
+  // Creation pipeline: one factory per definition kind
+  private componentFactory: ComponentFactoryManager = new ComponentFactoryManager();
+
+  constructor(parent?: ReactComponentRegistry, scope: string = 'root') {
+    this.parent = parent;
+    this.scope = scope;
+
+    // Components registered on the parent may satisfy dependencies deferred in this registry
+    if (parent) {
+      const handleParentRegistered = () => {
+        this.resolveDeferred();
+      };
+      parent.on('component:registered', handleParentRegistered);
+      this.releaseParent = () => parent.off('component:registered', handleParentRegistered);
+    }
+  }
+
+  /**
+   * Create (or return the existing) child registry for a scope such as a Filament panel or tenant.
+   * Child registries inherit every component of their parent and can override them by name.
+   */
+  createChild(scope: string): ReactComponentRegistry {
+    const existing = scopedRegistries.get(scope);
+    if (existing && existing.parent === this) {
+      return existing;
+    }
+    if (existing) {
+      console.warn(`Component registry scope "${scope}" already exists and will be replaced`);
+      existing.dispose();
+    }
+
+    const child = new ReactComponentRegistry(this, scope);
+    scopedRegistries.set(scope, child);
+    this.events.emit('registry:child-created', { scope, registry: child });
+
+    return child;
+  }
+
+  /**
+   * Discard a child registry: stop listening to its parent, clear it and release its scope name.
+   * Child registries of its own are disposed with it.
+   */
+  dispose(): void {
+    scopedRegistries.forEach(registry => {
+      if (registry.parent === this) {
+        registry.dispose();
+      }
+    });
+
+    this.releaseParent?.();
+    this.releaseParent = undefined;
+    this.clear();
+
+    if (scopedRegistries.get(this.scope) === this) {
+      scopedRegistries.delete(this.scope);
+    }
+  }
+
+  /**
+   * Get the scope name of this registry ('root' for the global registry)
+   */
+  getScope(): string {
+    return this.scope;
+  }
 
   /**
-   * Register a React component with enhanced features
+   * Get the parent registry, if this is a child registry
    */
-  register(definition: ReactComponentDefinition): void {
+  getParent(): ReactComponentRegistry | undefined {
+    return this.parent;
+  }
+
+  /**
+   * Check if a component is registered directly in this registry (not inherited)
+   */
+  hasOwn(name: string): boolean {
+    return this.components.has(name);
+  }
+
+  /**
+   * Register a React component with enhanced features.
+   * Resolves once every dependency is registered and every global middleware (sync or async)
+   * has processed the component; until then get() does not return it. Registrations that would
+   * introduce a dependency cycle reject with a DependencyCycleError and change nothing.
+   */
+  register(definition: ReactComponentDefinition): Promise<ReactComponentDefinition> {
     // Emit before registration event
     this.events.emit('component:registering', { definition });
 
-    // Validate dependencies
-    if (definition.config?.dependencies) {
-      for (const dep of definition.config.dependencies) {
-        if (!this.has(dep)) {
-          console.warn(`Component ${definition.name} depends on ${dep} which is not registered`);
-        }
+    // Track dependencies and refuse registrations that would introduce a cycle
+    const dependencies = definition.config?.dependencies || [];
+    const previousDependencies = this.dependencyGraph.hasNode(definition.name)
+      ? this.dependencyGraph.getDependencies(definition.name)
+      : null;
+    this.dependencyGraph.addNode(definition.name, dependencies);
+
+    const cycle = this.dependencyGraph.findCycle(definition.name);
+    if (cycle) {
+      if (previousDependencies) {
+        this.dependencyGraph.addNode(definition.name, previousDependencies);
+      } else {
+        this.dependencyGraph.removeNode(definition.name);
       }
+      return Promise.reject(new DependencyCycleError(cycle));
     }
 
-    // Handle dynamic imports for code splitting
-    const isAsyncImport =
-      typeof definition.component === 'function' &&
-      !(definition.component.prototype && definition.component.prototype.isReactComponent);
+    // A new registration supersedes any registration still waiting on middleware or dependencies
+    this.pending.delete(definition.name);
+    const superseded = this.deferred.get(definition.name);
+    this.deferred.delete(definition.name);
 
-    let processedComponent = definition.component;
+    // Defer the registration until all dependencies have been registered
+    const missing = dependencies.filter(dep => !this.has(dep));
+    const registration =
+      missing.length > 0
+        ? this.deferRegistration(definition, missing)
+        : this.completeRegistration(definition);
+
+    superseded?.resolve(registration);
+
+    return registration;
+  }
 
-    // Skip lazy loading for bundled components - all components are available synchronously
-    // Only show warning if not explicitly marked as synchronous
-    if (isAsyncImport && definition.isAsync !== false && !definition.isAsync) {
-      console.warn(
-        `Component ${definition.name} appears to be an async import but lazy loading is disabled in bundled mode. Ensure all components are imported synchronously.`
+  /**
+   * Swap the component of a registered definition (e.g. on hot module replacement).
+   * Middleware is re-applied and every container rendering the component is re-rendered
+   * with its current props. Rejects for components not registered in this registry.
+   */
+  replace(
+    name: string,
+    component: ReactComponentDefinition['component']
+  ): Promise<ReactComponentDefinition> {
+    const source = this.sources.get(name);
+    const previous = this.components.get(name);
+    if (!source || !previous) {
+      return Promise.reject(new Error(`Cannot replace unregistered component "${name}"`));
+    }
+
+    // Lazy definitions keep a loader, so wrap the new component in one
+    const replacement: ReactComponentDefinition['component'] = source.isAsync
+      ? () =>
+          Promise.resolve({ default: component as React.ComponentType<Record<string, unknown>> })
+      : component;
+
+    return this.completeRegistration({ ...source, component: replacement }, previous).then(
+      definition => {
+        universalReactRenderer.refresh(name);
+        return definition;
+      }
+    );
+  }
+
+  /**
+   * Register every component module matched by a Vite glob import as a lazy definition
+   * (eagerly imported modules are registered as they are). Names follow the file name and a
+   * module's `export const meta` supplies metadata and config.
+   *
+   * @example
+   * componentRegistry.autoDiscover(import.meta.glob('./components/*.tsx'), {
+   *   meta: import.meta.glob('./components/*.tsx', { import: 'meta', eager: true }),
+   * });
+   */
+  autoDiscover(
+    modules: Record<string, IDiscoveredModule>,
+    options: IAutoDiscoverOptions = {}
+  ): Promise<ReactComponentDefinition[]> {
+    const { exportName = 'default', overwrite = false } = options;
+    const registrations: Array<Promise<ReactComponentDefinition | undefined>> = [];
+
+    for (const [path, module] of Object.entries(modules)) {
+      if (
+        options.exclude &&
+        (typeof options.exclude === 'function' ? options.exclude(path) : options.exclude.test(path))
+      ) {
+        continue;
+      }
+
+      // Eager modules carry their meta export; lazy ones rely on options.meta
+      const isLoader = typeof module === 'function';
+      const meta = (options.meta?.[path] ?? (isLoader ? undefined : module.meta)) as
+        IComponentModuleMeta | undefined;
+      const { name: metaName, defaultProps, propSchema, config, ...metadata } = meta || {};
+      const name =
+        metaName ?? `${options.prefix || ''}${(options.name || componentNameFromPath)(path)}`;
+
+      // Hand-registered components take precedence over discovered ones
+      if (!overwrite && (this.has(name) || this.isPending(name))) {
+        continue;
+      }
+
+      const discovered: ReactComponentDefinition = {
+        name,
+        component: isLoader
+          ? async () => ({
+              default: (await module())[exportName] as React.ComponentType<Record<string, unknown>>,
+            })
+          : (module[exportName] as React.ComponentType<Record<string, unknown>>),
+        isAsync: isLoader,
+        chunk: isLoader ? path : undefined,
+        defaultProps,
+        propSchema,
+        config: { ...options.config, ...config, lazy: isLoader },
+        metadata,
+      };
+
+      registrations.push(
+        this.register(discovered).catch(error => {
+          console.error(`Failed to register discovered component ${name} (${path}):`, error);
+          return undefined;
+        })
+      );
+    }
+
+    return Promise.all(registrations).then(results => {
+      const definitions = results.filter(
+        (definition): definition is ReactComponentDefinition => definition !== undefined
       );
-      // Mark as processed to avoid re-processing
-      definition.isAsync = true;
+      this.events.emit('registry:discovered', {
+        names: definitions.map(definition => definition.name),
+      });
+      return definitions;
+    });
+  }
+
+  /**
+   * Park a registration until its missing dependencies arrive
+   */
+  private deferRegistration(
+    definition: ReactComponentDefinition,
+    missing: string[]
+  ): Promise<ReactComponentDefinition> {
+    let resolve: (registration: Promise<ReactComponentDefinition>) => void = () => {};
+    const registration = new Promise<ReactComponentDefinition>(resolveRegistration => {
+      resolve = resolveRegistration;
+    });
+    this.deferred.set(definition.name, { definition, registration, resolve });
+
+    this.events.emit('component:deferred', { name: definition.name, missing });
+
+    return registration;
+  }
+
+  /**
+   * Complete deferred registrations whose dependencies are now all registered
+   */
+  private resolveDeferred(): void {
+    this.deferred.forEach(({ definition, resolve }, name) => {
+      const dependencies = definition.config?.dependencies || [];
+      if (dependencies.every(dep => this.has(dep))) {
+        this.deferred.delete(name);
+        resolve(this.completeRegistration(definition));
+      }
+    });
+  }
+
+  /**
+   * Process a definition through the global middleware and store it
+   */
+  private completeRegistration(
+    definition: ReactComponentDefinition,
+    replacing?: ReactComponentDefinition
+  ): Promise<ReactComponentDefinition> {
+    // Lazy definitions register a loader (() => import('./Component')) instead of the component.
+    // Class components, memo and forwardRef objects can never be loaders; registrations that pass
+    // a function component with the lazy hint set isAsync: false.
+    const isComponentType =
+      typeof definition.component !== 'function' ||
+      !!definition.component.prototype?.isReactComponent;
+    if (definition.isAsync === undefined && definition.config?.lazy && !isComponentType) {
+      definition = { ...definition, isAsync: true };
     }
 
     // Apply global middleware
-    for (const middleware of this.middleware) {
-      const context: ComponentContext = {
-        registry: this,
-        hooks: this.createHookManager(),
-        config: definition.config || {},
-        metadata: definition.metadata || {},
+    const context = this.createContext(definition);
+    if (definition.isAsync) {
+      // Lazy components go through the middleware once their loader resolves
+      const lazyDefinition = definition;
+      const loader = lazyDefinition.component as () => Promise<{
+        default: React.ComponentType<Record<string, unknown>>;
+      }>;
+      const processedLoader = async () => {
+        const module = await loader();
+        return {
+          default: await this.applyMiddleware(
+            lazyDefinition.name,
+            module.default,
+            this.getMiddlewareChain(),
+            lazyDefinition.defaultProps || {},
+            context
+          ),
+        };
       };
+      return Promise.resolve(this.storeDefinition(definition, processedLoader, replacing));
+    }
 
-      try {
-        const result = middleware(
-          processedComponent as React.ComponentType<Record<string, unknown>>,
-          definition.defaultProps || {},
-          context
-        );
-        if (result instanceof Promise) {
-          // Handle async middleware
-          result
-            .then(comp => (processedComponent = comp))
-            .catch(error => {
-              console.error(`Error in async middleware for ${definition.name}:`, error);
-            });
-        } else {
-          processedComponent = result;
-        }
-      } catch (error) {
-        console.error(`Error in middleware for ${definition.name}:`, error);
+    const processed = this.applyMiddleware(
+      definition.name,
+      definition.component as React.ComponentType<Record<string, unknown>>,
+      this.getMiddlewareChain(),
+      definition.defaultProps || {},
+      context
+    );
+
+    if (!(processed instanceof Promise)) {
+      return Promise.resolve(this.storeDefinition(definition, processed, replacing));
+    }
+
+    // Async middleware: keep the registration pending until the whole chain resolves
+    const pendingRegistration: Promise<ReactComponentDefinition> = processed.then(component => {
+      if (this.pending.get(definition.name) !== pendingRegistration) {
+        // Superseded by a newer registration or unregistered while pending
+        return this.buildDefinition(definition, component);
       }
+
+      this.pending.delete(definition.name);
+      return this.storeDefinition(definition, component, replacing);
+    });
+
+    this.pending.set(definition.name, pendingRegistration);
+    this.events.emit('component:pending', { name: definition.name, definition });
+
+    return pendingRegistration;
+  }
+
+  /**
+   * Check if a component registration is waiting on async middleware or on its dependencies
+   */
+  isPending(name: string): boolean {
+    name = this.canonicalName(name);
+    if (this.pending.has(name) || this.deferred.has(name)) {
+      return true;
     }
 
-    // Store the processed definition
-    const processedDefinition = {
-      ...definition,
-      component: processedComponent,
-      isAsync: definition.isAsync,
-      config: {
-        lazy: false,
-        cache: false,
-        ssr: false,
-        preload: false,
-        ...definition.config,
-      },
+    return !this.components.has(name) && !!this.parent?.isPending(name);
+  }
+
+  /**
+   * Resolve a component definition once it is ready, waiting for pending registrations
+   */
+  whenReady(name: string): Promise<ReactComponentDefinition | undefined> {
+    name = this.canonicalName(name);
+    const pendingRegistration = this.pending.get(name);
+    if (pendingRegistration) {
+      return pendingRegistration.then(() => this.whenReady(name));
+    }
+
+    const deferredRegistration = this.deferred.get(name);
+    if (deferredRegistration) {
+      return deferredRegistration.registration.then(() => this.whenReady(name));
+    }
+
+    if (!this.components.has(name) && this.parent) {
+      return this.parent.whenReady(name);
+    }
+
+    return Promise.resolve(this.get(name));
+  }
+
+  /**
+   * Make sure all transitive dependencies of a component are registered, loading missing
+   * ones through the code splitting service, then resolve the component definition.
+   * Rejects when one of them cannot be registered (e.g. it would create a dependency cycle).
+   */
+  async resolveDependencies(name: string): Promise<ReactComponentDefinition | undefined> {
+    name = this.canonicalName(name);
+    const dependencies = this.dependencyGraph.getDependencies(name, true);
+    // Awaited together: a dependency may wait on one registered later in the loop
+    const registrations: Array<Promise<ReactComponentDefinition>> = [];
+
+    for (const dependency of dependencies) {
+      if (this.has(dependency) || this.isPending(dependency)) {
+        continue;
+      }
+
+      const component = await codeSplittingService.loadComponent(dependency);
+      if (!this.has(dependency) && !this.isPending(dependency)) {
+        registrations.push(this.register({ name: dependency, component }));
+      }
+    }
+
+    await Promise.all(registrations);
+    await Promise.all(dependencies.map(dependency => this.whenReady(dependency)));
+
+    return this.whenReady(name);
+  }
+
+  /**
+   * Get a snapshot of the dependency graph for inspection (e.g. in DevTools)
+   */
+  getDependencyGraph(): IDependencyGraphSnapshot {
+    const nodes = this.dependencyGraph.getNodes().map(name => ({
+      name,
+      status: this.getDependencyStatus(name),
+      dependencies: this.dependencyGraph.getDependencies(name),
+      dependents: this.dependencyGraph.getDependents(name),
+    }));
+
+    return {
+      nodes,
+      order: this.dependencyGraph.topologicalSort(),
     };
+  }
 
-    this.components.set(definition.name, processedDefinition);
+  /**
+   * Get the components that depend on the given component
+   */
+  getDependents(name: string, transitive: boolean = false): string[] {
+    return this.dependencyGraph.getDependents(name, transitive);
+  }
 
-    // Emit after registration event
-    this.events.emit('component:registered', {
-      definition: processedDefinition,
-    });
+  private getDependencyStatus(name: string): IDependencyGraphSnapshot['nodes'][number]['status'] {
+    if (this.has(name)) return 'registered';
+    if (this.deferred.has(name)) return 'deferred';
+    if (this.pending.has(name)) return 'pending';
+    return 'missing';
   }
 
   /**
-   * Get a registered component by name
+   * Get a registered component by name, falling back to the parent registry
    */
   get(name: string): ReactComponentDefinition | undefined {
+    name = this.resolveAlias(name);
     const definition = this.components.get(name);
     if (definition) {
       // Emit component access event
       this.events.emit('component:accessed', { name, definition });
+      return definition;
     }
-    return definition;
+    return this.parent?.get(name);
+  }
+
+  /**
+   * Look up a definition (own or inherited) without emitting access or alias events
+   */
+  private lookup(name: string): ReactComponentDefinition | undefined {
+    name = this.canonicalName(name);
+    return this.components.get(name) ?? this.parent?.lookup(name);
+  }
+
+  /**
+   * Register another name for a component, e.g. its old name after a rename.
+   * get(), create(), mount() and the renderer resolve aliases transparently.
+   */
+  alias(alias: string, target: string, options: IComponentAliasOptions = {}): void {
+    if (alias === target) {
+      throw new Error(`Component alias "${alias}" cannot point to itself`);
+    }
+    if (this.components.has(alias)) {
+      throw new Error(`Cannot alias "${alias}": a component with that name is registered`);
+    }
+    if (this.aliasChain(target).includes(alias)) {
+      throw new Error(`Component alias "${alias}" -> "${target}" would create a cycle`);
+    }
+
+    const record: IComponentAlias = { ...options, alias, target };
+    this.aliases.set(alias, record);
+    this.warnedAliases.delete(alias);
+    this.events.emit('component:aliased', record);
+  }
+
+  /**
+   * Remove an alias
+   */
+  unalias(alias: string): boolean {
+    this.warnedAliases.delete(alias);
+    return this.aliases.delete(alias);
+  }
+
+  /**
+   * Get all aliases (including inherited ones)
+   */
+  getAliases(): IComponentAlias[] {
+    const all = new Map<string, IComponentAlias>(
+      this.parent ? this.parent.getAliases().map(record => [record.alias, record]) : []
+    );
+    this.aliases.forEach((record, alias) => all.set(alias, record));
+    return Array.from(all.values());
+  }
+
+  /**
+   * Resolve an alias to the name of the component it points to, announcing the alias use.
+   * Deprecated aliases are warned about once and reported to DevTools with their container.
+   */
+  resolveAlias(name: string, containerId?: string): string {
+    const resolved = this.canonicalName(name);
+    if (resolved === name) {
+      return name;
+    }
+
+    const record = this.findAlias(name)!;
+    this.events.emit('component:alias-used', {
+      alias: name,
+      name: resolved,
+      deprecated: !!record.deprecated,
+      message: record.message,
+      containerId,
+    });
+
+    if (record.deprecated) {
+      if (!this.warnedAliases.has(name)) {
+        this.warnedAliases.add(name);
+        console.warn(
+          `Component "${name}" is deprecated, use "${resolved}" instead.` +
+            (record.message ? ` ${record.message}` : '')
+        );
+      }
+      devTools.trackDeprecatedAlias({
+        alias: name,
+        target: resolved,
+        message: record.message,
+        containerId,
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Follow aliases (own, then inherited) until a registered or unknown name is reached
+   */
+  private canonicalName(name: string): string {
+    const chain = this.aliasChain(name);
+    return chain[chain.length - 1] ?? name;
+  }
+
+  private aliasChain(name: string): string[] {
+    const chain = [name];
+    let record = this.components.has(name) ? undefined : this.findAlias(name);
+
+    while (record && !chain.includes(record.target)) {
+      chain.push(record.target);
+      record = this.components.has(record.target) ? undefined : this.findAlias(record.target);
+    }
+
+    return chain;
+  }
+
+  private findAlias(name: string): IComponentAlias | undefined {
+    return this.aliases.get(name) ?? this.parent?.findAlias(name);
   }
 
   /**
@@ -137,39 +625,29 @@ class ReactComponentRegistry implements IComponentRegistry {
     name: string,
     props: Record<string, unknown> = {}
   ): React.ComponentType<Record<string, unknown>> | null {
+    name = this.resolveAlias(name);
     const definition = this.get(name);
     if (!definition) {
       console.error(`Component ${name} not found in registry`);
       return null;
     }
 
-    // Merge props with defaults
-    const mergedProps = { ...definition.defaultProps, ...props };
+    // Merge props with defaults and validate them against the prop schema
+    const validation = this.validateProps(name, props);
+    if (!validation.valid) {
+      console.error(`Invalid props for component ${name}:`, validation.errors);
+      return null;
+    }
+    const mergedProps = validation.value;
 
-    // Apply component-level middleware
-    let component = definition.component;
-    if (definition.config?.middleware) {
-      for (const middleware of definition.config.middleware) {
-        const context: ComponentContext = {
-          registry: this,
-          hooks: this.createHookManager(),
-          config: definition.config,
-          metadata: definition.metadata || {},
-        };
-        // Ensure component is a React component type before passing to middleware
-        if (
-          typeof component === 'function' &&
-          !(component as unknown as Promise<unknown>).then &&
-          (component.prototype?.isReactComponent ||
-            (typeof component === 'function' && !component.prototype?.isReactComponent))
-        ) {
-          component = middleware(
-            component as React.ComponentType<Record<string, unknown>>,
-            mergedProps,
-            context
-          ) as React.ComponentType<Record<string, unknown>>;
-        }
-      }
+    // Start loading lazy components right away instead of on first render
+    if (definition.isAsync) {
+      void this.load(name);
+    }
+
+    const component = this.createWithFactory(definition, mergedProps);
+    if (!component) {
+      return null;
     }
 
     // Emit component creation event
@@ -179,31 +657,271 @@ class ReactComponentRegistry implements IComponentRegistry {
       component,
     });
 
-    // Ensure we're returning a valid React component
-    if (
-      typeof component === 'function' &&
-      !(component as unknown as Promise<unknown>).then &&
-      (component.prototype?.isReactComponent ||
-        (typeof component === 'function' && !component.prototype?.isReactComponent))
-    ) {
-      return component as React.ComponentType<Record<string, unknown>>;
+    return component;
+  }
+
+  /**
+   * Resolve the component of a definition, loading lazy components through the async factory.
+   * Concurrent calls share one load; failed chunk loads are retried with backoff.
+   */
+  load(name: string): Promise<React.ComponentType<Record<string, unknown>> | null> {
+    name = this.canonicalName(name);
+    const definition = this.lookup(name);
+    if (!definition) {
+      return Promise.resolve(null);
+    }
+    if (!this.components.has(name) && this.parent) {
+      return this.parent.load(name);
+    }
+    if (!definition.isAsync) {
+      return Promise.resolve(definition.component as React.ComponentType<Record<string, unknown>>);
+    }
+
+    const factory = this.getFactory(this.componentFactory.getKind(definition));
+    if (!factory?.createComponentAsync) {
+      return Promise.resolve(null);
     }
 
-    // If we somehow got a non-component, return a placeholder
-    console.error(`Component ${name} is not a valid React component`);
-    return (() => <div>Invalid component: {name}</div>) as React.ComponentType<
-      Record<string, unknown>
-    >;
+    return factory.createComponentAsync(definition, {}, this.createContext(definition));
   }
 
   /**
-   * Register an extension
+   * Check whether a lazy component has been loaded (non-lazy components always are)
    */
-  registerExtension(name: string, extension: unknown): void {
-    this.extensions.set(name, extension);
+  isLoaded(name: string): boolean {
+    name = this.canonicalName(name);
+    const definition = this.lookup(name);
+    if (!definition) {
+      return false;
+    }
+    if (!this.components.has(name) && this.parent) {
+      return this.parent.isLoaded(name);
+    }
+
+    return !definition.isAsync || !!this.componentFactory.getCachedComponent(name);
+  }
+
+  /**
+   * Get the renderable component for a registered definition, without binding props
+   */
+  resolveComponent(name: string): React.ComponentType<Record<string, unknown>> | null {
+    const definition = this.lookup(name);
+    return definition ? this.createWithFactory(definition, {}) : null;
+  }
+
+  /**
+   * Register a factory for definitions with the given kind (e.g. web-component or iframe wrappers).
+   * Child registries inherit the factories of their parent.
+   */
+  registerFactory(kind: string, factory: IComponentFactory): void {
+    this.componentFactory.registerFactory(kind, factory);
+    this.events.emit('factory:registered', { kind, factory });
+  }
+
+  /**
+   * Remove a custom factory
+   */
+  unregisterFactory(kind: string): boolean {
+    return this.componentFactory.unregisterFactory(kind);
+  }
+
+  /**
+   * Get the factory for a definition kind, falling back to the parent registry
+   */
+  getFactory(kind: string): IComponentFactory | undefined {
+    return this.componentFactory.getFactory(kind) ?? this.parent?.getFactory(kind);
+  }
+
+  /**
+   * Run a definition through the factory for its kind.
+   * Inherited definitions are created by the registry that owns them, so loaded lazy
+   * components are cached once.
+   */
+  private createWithFactory(
+    definition: ReactComponentDefinition,
+    props: Record<string, unknown>
+  ): React.ComponentType<Record<string, unknown>> | null {
+    if (!this.components.has(definition.name) && this.parent) {
+      return this.parent.createWithFactory(definition, props);
+    }
+
+    const kind = this.componentFactory.getKind(definition);
+    const factory = this.getFactory(kind);
+    if (!factory) {
+      console.error(
+        `No component factory registered for kind "${kind}" (component ${definition.name})`
+      );
+      return null;
+    }
+
+    try {
+      return factory.createComponent(definition, props, this.createContext(definition));
+    } catch (error) {
+      console.error(`Error creating component ${definition.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Validate props for a component against its prop schema, coercing Blade-serialised values
+   */
+  validateProps(
+    name: string,
+    props: Record<string, unknown> = {}
+  ): IPropValidationResult<Record<string, unknown>> {
+    const definition = this.lookup(name);
+    const mergedProps = { ...definition?.defaultProps, ...props };
+    const schema = definition ? propValidationService.resolveSchema(definition) : undefined;
+
+    if (!schema) {
+      return { valid: true, errors: [], value: mergedProps };
+    }
+
+    const result = propValidationService.validate<Record<string, unknown>>(schema, mergedProps);
+
+    if (!result.valid) {
+      this.events.emit('component:props-invalid', { name, props, errors: result.errors });
+    }
+
+    return result;
+  }
+
+  /**
+   * Register an extension: checks conflicts and dependencies, subscribes its hooks,
+   * adds its middleware and runs its install step
+   */
+  registerExtension(extension: IRegistryExtension): void;
+  registerExtension(name: string, extension: unknown): void;
+  registerExtension(nameOrExtension: string | IRegistryExtension, legacy?: unknown): void {
+    const extension: IRegistryExtension =
+      typeof nameOrExtension === 'string'
+        ? {
+            ...(legacy && typeof legacy === 'object' ? (legacy as object) : {}),
+            name: nameOrExtension,
+          }
+        : nameOrExtension;
+    const name = extension.name;
+
+    if (this.extensions.has(name)) {
+      throw new Error(`Extension [${name}] is already registered.`);
+    }
+
+    this.checkExtensionConflicts(extension);
+
+    for (const dependency of extension.dependsOn || []) {
+      if (!this.extensions.has(dependency)) {
+        throw new Error(`Extension [${name}] requires [${dependency}] which is not registered.`);
+      }
+    }
+
+    const record = {
+      extension,
+      middleware: [...(extension.middleware || [])],
+      hooks: [] as Array<{ event: string; callback: (data?: unknown) => unknown }>,
+    };
+
+    for (const [event, hook] of Object.entries(extension.hooks || {})) {
+      const callback = typeof hook === 'function' ? hook : hook.callback;
+      const priority = typeof hook === 'function' ? undefined : hook.priority;
+      this.events.on(event, callback, priority);
+      record.hooks.push({ event, callback });
+    }
+
+    record.middleware.forEach(middleware => this.addMiddleware(middleware));
+
+    try {
+      extension.install?.(this);
+    } catch (error) {
+      // Roll back everything the extension attached before rethrowing
+      this.detachExtension(record);
+      throw error;
+    }
+
+    this.extensions.set(name, record);
     this.events.emit('extension:registered', { name, extension });
   }
 
+  /**
+   * Register several extensions, installing dependencies before their dependents
+   */
+  registerExtensions(extensions: IRegistryExtension[]): void {
+    const graph = new DependencyGraph();
+    const byName = new Map(extensions.map(extension => [extension.name, extension]));
+
+    extensions.forEach(extension => graph.addNode(extension.name, extension.dependsOn || []));
+
+    for (const name of graph.topologicalSort()) {
+      const extension = byName.get(name);
+      if (extension) {
+        this.registerExtension(extension);
+      }
+    }
+  }
+
+  /**
+   * Uninstall an extension and remove its middleware and hook subscriptions
+   */
+  unregisterExtension(name: string): boolean {
+    const record = this.extensions.get(name);
+    if (!record) {
+      return false;
+    }
+
+    const dependents = Array.from(this.extensions.values())
+      .filter(({ extension }) => extension.dependsOn?.includes(name))
+      .map(({ extension }) => extension.name);
+    if (dependents.length > 0) {
+      throw new Error(`Extension [${name}] is required by [${dependents.join(', ')}].`);
+    }
+
+    this.events.emit('extension:unregistering', { name, extension: record.extension });
+
+    try {
+      record.extension.uninstall?.(this);
+    } catch (error) {
+      console.error(`Error uninstalling extension ${name}:`, error);
+    }
+
+    this.detachExtension(record);
+    this.extensions.delete(name);
+    this.events.emit('extension:unregistered', { name });
+
+    return true;
+  }
+
+  /**
+   * Get an installed extension by name
+   */
+  getExtension(name: string): IRegistryExtension | undefined {
+    return this.extensions.get(name)?.extension;
+  }
+
+  /**
+   * Get the names of installed extensions in installation order
+   */
+  getExtensionNames(): string[] {
+    return Array.from(this.extensions.keys());
+  }
+
+  private checkExtensionConflicts(extension: IRegistryExtension): void {
+    for (const { extension: installed } of this.extensions.values()) {
+      if (
+        extension.conflictsWith?.includes(installed.name) ||
+        installed.conflictsWith?.includes(extension.name)
+      ) {
+        throw new Error(`Extension [${extension.name}] conflicts with [${installed.name}].`);
+      }
+    }
+  }
+
+  private detachExtension(record: {
+    middleware: IComponentMiddleware[];
+    hooks: Array<{ event: string; callback: (data?: unknown) => unknown }>;
+  }): void {
+    record.middleware.forEach(middleware => this.removeMiddleware(middleware));
+    record.hooks.forEach(({ event, callback }) => this.events.off(event, callback));
+  }
+
   /**
    * Add global middleware
    */
@@ -212,20 +930,43 @@ class ReactComponentRegistry implements IComponentRegistry {
   }
 
   /**
-   * Get all registered components with filtering
+   * Remove global middleware
+   */
+  removeMiddleware(middleware: ComponentMiddleware): boolean {
+    const index = this.middleware.indexOf(middleware);
+    if (index === -1) {
+      return false;
+    }
+
+    this.middleware.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Global middleware applied to registrations: inherited middleware runs first
+   */
+  private getMiddlewareChain(): Array<IComponentMiddleware> {
+    return [...(this.parent ? this.parent.getMiddlewareChain() : []), ...this.middleware];
+  }
+
+  /**
+   * Get all registered components (including inherited ones) with filtering
    */
   getAll(filter?: {
     category?: string;
     tag?: string;
     name?: RegExp;
   }): Map<string, ReactComponentDefinition> {
+    const all = new Map<string, ReactComponentDefinition>(this.parent ? this.parent.getAll() : []);
+    this.components.forEach((definition, name) => all.set(name, definition));
+
     if (!filter) {
-      return new Map(this.components);
+      return all;
     }
 
     const filtered = new Map<string, ReactComponentDefinition>();
 
-    this.components.forEach((definition, name) => {
+    all.forEach((definition, name) => {
       let include = true;
 
       if (filter.category && definition.metadata?.category !== filter.category) {
@@ -252,15 +993,34 @@ class ReactComponentRegistry implements IComponentRegistry {
    * Check if a component is registered
    */
   has(name: string): boolean {
-    return this.components.has(name);
+    name = this.canonicalName(name);
+    return this.components.has(name) || !!this.parent?.has(name);
   }
 
   /**
    * Unregister a component
    */
   unregister(name: string): boolean {
+    this.pending.delete(name);
+    this.dependencyGraph.removeNode(name);
+
+    const deferredRegistration = this.deferred.get(name);
+    if (deferredRegistration) {
+      this.deferred.delete(name);
+      deferredRegistration.resolve(
+        Promise.resolve(
+          this.buildDefinition(
+            deferredRegistration.definition,
+            deferredRegistration.definition.component
+          )
+        )
+      );
+    }
+
     if (this.components.has(name)) {
       this.events.emit('component:unregistering', { name });
+      this.sources.delete(name);
+      this.componentFactory.clearCache(name);
       const result = this.components.delete(name);
       this.events.emit('component:unregistered', { name });
       return result;
@@ -274,6 +1034,13 @@ class ReactComponentRegistry implements IComponentRegistry {
   clear(): void {
     this.events.emit('registry:clearing');
     this.components.clear();
+    this.sources.clear();
+    this.aliases.clear();
+    this.warnedAliases.clear();
+    this.componentFactory.clearCache();
+    this.pending.clear();
+    this.deferred.clear();
+    this.dependencyGraph.clear();
     this.events.emit('registry:cleared');
   }
 
@@ -281,7 +1048,7 @@ class ReactComponentRegistry implements IComponentRegistry {
    * Get list of registered component names
    */
   getComponentNames(): string[] {
-    return Array.from(this.components.keys());
+    return Array.from(this.getAll().keys());
   }
 
   /**
@@ -292,13 +1059,14 @@ class ReactComponentRegistry implements IComponentRegistry {
     categoryCounts: Record<string, number>;
     tagCounts: Record<string, number>;
   } {
+    const all = this.getAll();
     const stats = {
-      totalComponents: this.components.size,
+      totalComponents: all.size,
       categoryCounts: {} as Record<string, number>,
       tagCounts: {} as Record<string, number>,
     };
 
-    this.components.forEach(definition => {
+    all.forEach(definition => {
       // Count categories
       const category = definition.metadata?.category || 'uncategorized';
       stats.categoryCounts[category] = (stats.categoryCounts[category] || 0) + 1;
@@ -314,6 +1082,87 @@ class ReactComponentRegistry implements IComponentRegistry {
     return stats;
   }
 
+  /**
+   * Query the component catalog: tag AND/OR filters, full-text search, sorting and pagination
+   */
+  query(query: IComponentQuery = {}): IComponentQueryResult {
+    return componentCatalogService.query(this.getAll().values(), query);
+  }
+
+  /**
+   * Export the catalog of every available component as JSON-serialisable data
+   */
+  exportCatalog(): IComponentCatalog {
+    return componentCatalogService.exportCatalog(this.getAll().values(), this.scope);
+  }
+
+  /**
+   * Serialize every available component (names, versions, config, metadata, lazy chunk ids)
+   */
+  toManifest(): IComponentManifest {
+    return registryManifestService.create(this.getAll().values(), this.scope);
+  }
+
+  /**
+   * Pre-register lazy stubs for the components of a server-provided manifest.
+   * Accepts toManifest() output as well as the PHP registry's `all()`.
+   */
+  fromManifest(
+    manifest: unknown,
+    options: IFromManifestOptions = {}
+  ): Promise<ReactComponentDefinition[]> {
+    const { components } = registryManifestService.normalize(manifest);
+    const registrations: Array<Promise<ReactComponentDefinition | undefined>> = [];
+
+    for (const entry of Object.values(components)) {
+      if (!options.overwrite && (this.has(entry.name) || this.isPending(entry.name))) {
+        continue;
+      }
+
+      const loader =
+        options.loader?.(entry) ??
+        (async () => ({ default: await codeSplittingService.loadComponent(entry.name) }));
+
+      registrations.push(
+        this.register({
+          name: entry.name,
+          component: loader,
+          isAsync: true,
+          // Stubs always load lazily; only custom factory kinds carry over
+          kind: entry.kind === 'sync' || entry.kind === 'async' ? undefined : entry.kind,
+          chunk: entry.chunk,
+          defaultProps: entry.defaultProps,
+          propSchema: entry.propSchema,
+          config: { ...entry.config, lazy: true },
+          metadata: entry.metadata,
+        }).catch(error => {
+          console.error(`Failed to register component ${entry.name} from manifest:`, error);
+          return undefined;
+        })
+      );
+    }
+
+    return Promise.all(registrations).then(results => {
+      const definitions = results.filter(
+        (definition): definition is ReactComponentDefinition => definition !== undefined
+      );
+      this.events.emit('registry:hydrated', {
+        names: definitions.map(definition => definition.name),
+      });
+      return definitions;
+    });
+  }
+
+  /**
+   * Compare this registry with another manifest (e.g. the PHP registry's)
+   */
+  diffManifest(manifest: unknown): IManifestDiff {
+    return registryManifestService.diff(
+      this.toManifest(),
+      registryManifestService.normalize(manifest)
+    );
+  }
+
   /**
    * Add event listener
    */
@@ -330,13 +1179,22 @@ class ReactComponentRegistry implements IComponentRegistry {
 
   /**
    * Mount a component to a DOM container (for Blade template compatibility)
+   * Waits for (or lazily loads) the component and its dependencies before rendering
    */
-  mount(componentName: string, containerId: string, props: Record<string, unknown> = {}): void {
+  async mount(
+    componentName: string,
+    containerId: string,
+    props: Record<string, unknown> = {}
+  ): Promise<void> {
     try {
+      await this.resolveDependencies(componentName);
+      await this.load(componentName);
+
       universalReactRenderer.render({
         component: componentName,
         props,
         containerId,
+        registry: this,
         onDataChange: props.onDataChange as ((data: unknown) => void) | undefined,
         onError: error => {
           console.error(`Error mounting component ${componentName}:`, error);
@@ -347,6 +1205,25 @@ class ReactComponentRegistry implements IComponentRegistry {
     }
   }
 
+  /**
+   * Mount the metadata examples of a component (or of every component when name is null)
+   * as a living style guide, each example in its own error boundary
+   */
+  renderExamples(
+    name: string | null,
+    containerId: string,
+    options: Omit<ComponentGalleryProps, 'registry' | 'components'> = {}
+  ): void {
+    if (name && !this.has(name)) {
+      console.warn(`Component ${name} not found in registry, no examples to render`);
+    }
+
+    universalReactRenderer.renderElement(
+      containerId,
+      <ComponentGallery registry={this} components={name ? [name] : undefined} {...options} />
+    );
+  }
+
   /**
    * Unmount a component from a DOM container
    */
@@ -358,6 +1235,113 @@ class ReactComponentRegistry implements IComponentRegistry {
     }
   }
 
+  /**
+   * Run a middleware chain, switching to async processing as soon as a middleware returns a promise.
+   * A failing middleware is logged and skipped so the rest of the chain still applies.
+   */
+  private applyMiddleware(
+    name: string,
+    component: React.ComponentType<Record<string, unknown>>,
+    middleware: Array<IComponentMiddleware>,
+    props: Record<string, unknown>,
+    context: ComponentContext,
+    startIndex: number = 0
+  ):
+    | React.ComponentType<Record<string, unknown>>
+    | Promise<React.ComponentType<Record<string, unknown>>> {
+    let current = component;
+
+    for (let index = startIndex; index < middleware.length; index++) {
+      try {
+        const result = middleware[index]!(current, props, context);
+
+        if (result instanceof Promise) {
+          const previous = current;
+          return result
+            .catch(error => {
+              console.error(`Error in async middleware for ${name}:`, error);
+              return previous;
+            })
+            .then(resolved =>
+              this.applyMiddleware(name, resolved, middleware, props, context, index + 1)
+            );
+        }
+
+        current = result;
+      } catch (error) {
+        console.error(`Error in middleware for ${name}:`, error);
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Build the stored form of a definition with its processed component and config defaults
+   */
+  private buildDefinition(
+    definition: ReactComponentDefinition,
+    component: ReactComponentDefinition['component']
+  ): ReactComponentDefinition {
+    return {
+      ...definition,
+      component,
+      isAsync: definition.isAsync,
+      config: {
+        lazy: !!definition.isAsync,
+        cache: false,
+        ssr: false,
+        preload: false,
+        ...definition.config,
+      },
+    };
+  }
+
+  /**
+   * Store a processed definition and announce it
+   */
+  private storeDefinition(
+    definition: ReactComponentDefinition,
+    component: ReactComponentDefinition['component'],
+    replacing?: ReactComponentDefinition
+  ): ReactComponentDefinition {
+    const processedDefinition = this.buildDefinition(definition, component);
+
+    this.components.set(definition.name, processedDefinition);
+    this.sources.set(definition.name, definition);
+    this.componentFactory.clearCache(definition.name);
+
+    if (replacing) {
+      this.events.emit('component:replaced', {
+        name: definition.name,
+        definition: processedDefinition,
+        previous: replacing,
+      });
+      return processedDefinition;
+    }
+
+    // Emit after registration event
+    this.events.emit('component:registered', {
+      definition: processedDefinition,
+    });
+
+    this.resolveDeferred();
+
+    return processedDefinition;
+  }
+
+  /**
+   * Build the context passed to factories and middleware for a definition
+   */
+  private createContext(definition: ReactComponentDefinition): ComponentContext {
+    return {
+      registry: this,
+      hooks: this.createHookManager(),
+      config: definition.config || {},
+      metadata: definition.metadata || {},
+    };
+  }
+
   /**
    * Create hook manager for component context
    */
@@ -376,21 +1360,65 @@ class ReactComponentRegistry implements IComponentRegistry {
   }
 }
 
+/**
+ * Derive a component name from a module path: the file name, or the folder name for index files
+ */
+function componentNameFromPath(path: string): string {
+  const segments = path.replace(/[?#].*$/, '').split('/');
+  const file = (segments.pop() || '').replace(/\.[^.]+$/, '');
+
+  return file === 'index' && segments.length > 0 ? segments.pop()! : file;
+}
+
+// Child registries by scope name, so containers can reference them by string
+const scopedRegistries: Map<string, ReactComponentRegistry> = new Map();
+
 // Global singleton instance
 export const componentRegistry = new ReactComponentRegistry();
 
+/**
+ * Resolve a registry by scope name, falling back to the global registry
+ */
+export function getRegistry(scope?: string | null): ReactComponentRegistry {
+  if (!scope || scope === 'root') {
+    return componentRegistry;
+  }
+
+  const registry = scopedRegistries.get(scope);
+  if (!registry) {
+    console.warn(`Component registry scope "${scope}" not found, using the global registry`);
+    return componentRegistry;
+  }
+
+  return registry;
+}
+
 // Helper function to register multiple components at once
-export function registerComponents(definitions: ReactComponentDefinition[]): void {
-  definitions.forEach(definition => {
-    componentRegistry.register(definition);
-  });
+export function registerComponents(
+  definitions: ReactComponentDefinition[]
+): Promise<ReactComponentDefinition[]> {
+  return Promise.all(definitions.map(definition => componentRegistry.register(definition)));
+}
+
+// Helper function to discover components from a Vite glob import into the global registry
+export function autoDiscover(
+  modules: Record<string, IDiscoveredModule>,
+  options: IAutoDiscoverOptions = {}
+): Promise<ReactComponentDefinition[]> {
+  return componentRegistry.autoDiscover(modules, options);
 }
 
 // Extension helper
-export function createExtension(name: string, setup: (registry: ReactComponentRegistry) => void) {
+export function createExtension(
+  name: string,
+  setup: (registry: ReactComponentRegistry) => void,
+  options: Omit<IRegistryExtension, 'name' | 'install'> = {}
+): IRegistryExtension {
   return {
+    ...options,
     name,
-    install: () => setup(componentRegistry),
+    install: (registry: IComponentRegistry = componentRegistry) =>
+      setup(registry as ReactComponentRegistry),
   };
 }
 
@@ -1,5 +1,6 @@
 import React from 'react';
 import { componentRegistry } from './ReactComponentRegistry';
+import type { IComponentDefinition, IComponentQuery } from '../interfaces/IComponentRegistry';
 
 // MingleJS-inspired simple component registration
 export interface SimpleComponentConfig {
@@ -16,6 +17,8 @@ export function Component(name: string, config: SimpleComponentConfig = {}) {
     componentRegistry.register({
       name,
       component: target,
+      // A real component, never a loader, even when marked lazy
+      isAsync: false,
       defaultProps: config.props || {},
       config: {
         lazy: config.lazy || false,
@@ -42,6 +45,7 @@ export const registerComponent = <T extends React.ComponentType<any>>(
   componentRegistry.register({
     name,
     component,
+    isAsync: false,
     defaultProps: config.props || {},
     config: {
       lazy: config.lazy || false,
@@ -61,21 +65,16 @@ export const getComponent = (name: string) => {
   return componentRegistry.get(name);
 };
 
-// Simple component list
-export const listComponents = (category?: string) => {
-  const components = componentRegistry.getAll();
-
-  if (category) {
-    const filteredComponents: Record<string, any> = {};
-    Object.entries(components)
-      .filter(([_, def]) => def.metadata?.category === category)
-      .forEach(([name, def]) => {
-        filteredComponents[name] = def;
-      });
-    return filteredComponents;
-  }
+// Simple component list, filtered by category or by a catalog query
+export const listComponents = (
+  filter?: string | IComponentQuery
+): Record<string, IComponentDefinition> => {
+  const definitions =
+    typeof filter === 'object'
+      ? componentRegistry.query(filter).items
+      : Array.from(componentRegistry.getAll(filter ? { category: filter } : undefined).values());
 
-  return components;
+  return Object.fromEntries(definitions.map(definition => [definition.name, definition]));
 };
 
 // Island renderer (MingleJS style)
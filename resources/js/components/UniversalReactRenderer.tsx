@@ -1,6 +1,24 @@
 import React from 'react';
-import { createRoot, Root } from 'react-dom/client';
-import { componentRegistry } from './ReactComponentRegistry';
+import { createPortal } from 'react-dom';
+import { createRoot, hydrateRoot, type Root } from 'react-dom/client';
+import { getRegistry } from './ReactComponentRegistry';
+import type {
+  IComponentRegistry,
+  IErrorFallbackProps,
+  IErrorReport,
+  IErrorReporter,
+} from '../interfaces/IComponentRegistry';
+import { PropValidationError } from '../services/PropValidationService';
+import { wrapperRegistry, type WrapperProps } from './WrapperRegistry';
+import { applyJsonPatch, type JsonPatchOperation } from '../services/JsonPatch';
+import {
+  ReactErrorBoundary,
+  DefaultErrorFallback,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_DELAY,
+} from './ErrorBoundary';
+import { PortalHost, type ContainerRoot } from './PortalHost';
+import { devTools } from '../services/DevTools';
 
 // Interface for component data and state synchronization
 export interface ReactRendererProps {
@@ -10,87 +28,184 @@ export interface ReactRendererProps {
   containerId: string;
   onDataChange?: (data: unknown) => void;
   onError?: (error: Error) => void;
+  // Registry instance or child registry scope name to resolve the component against
+  registry?: IComponentRegistry | string;
+  // Props for the component's named wrappers, keyed by wrapper name
+  wrapperProps?: WrapperProps;
+  // Render through the shared portal root instead of a root of its own (defaults to portalMode)
+  portal?: boolean;
 }
 
-// Error boundary component
-interface ErrorBoundaryState {
-  hasError: boolean;
-  error?: Error;
+export { ReactErrorBoundary };
+
+export interface RendererConfig {
+  errorFallback?: React.ComponentType<IErrorFallbackProps>;
+  loadingFallback?: React.ReactNode;
+  // Retries offered by the error fallback, the n-th one after retryDelay * 2^(n-1) ms
+  maxRetries: number;
+  retryDelay: number;
+  // Hide internal details (error messages, registered components) from end users
+  production: boolean;
+  reporter?: IErrorReporter;
+  // Render new containers through one shared root with portals instead of a root each
+  portalMode: boolean;
 }
 
-class ReactErrorBoundary extends React.Component<
-  { children: React.ReactNode; onError?: (error: Error) => void },
-  ErrorBoundaryState
-> {
-  constructor(props: { children: React.ReactNode; onError?: (error: Error) => void }) {
-    super(props);
-    this.state = { hasError: false };
-  }
+export type RenderLifecycleEventType =
+  'mounting' | 'mounted' | 'updated' | 'unmounting' | 'unmounted' | 'errored';
 
-  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
-    return { hasError: true, error };
-  }
+export interface RenderLifecycleEvent {
+  type: RenderLifecycleEventType;
+  containerId: string;
+  // Undefined for elements rendered with renderElement()
+  componentName?: string;
+  props?: Record<string, unknown>;
+  error?: Error;
+}
 
-  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
-    console.error('React component error:', error, errorInfo);
-    this.props.onError?.(error);
-  }
+// The container a component is rendered in, for hooks that bind to its surroundings
+export interface RenderContainer {
+  containerId: string;
+  statePath?: string;
+}
 
-  render() {
-    if (this.state.hasError) {
-      return (
-        <div className="p-4 border border-red-300 rounded-md bg-red-50">
-          <h3 className="text-red-800 font-medium">Component Error</h3>
-          <p className="text-red-600 text-sm mt-1">
-            {this.state.error?.message || 'An unexpected error occurred'}
-          </p>
-          <button
-            onClick={() => this.setState({ hasError: false, error: undefined })}
-            className="mt-2 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
-          >
-            Retry
-          </button>
-        </div>
-      );
-    }
+const RenderContainerContext = React.createContext<RenderContainer | null>(null);
 
-    return this.props.children;
-  }
+/**
+ * The container the calling component was rendered in by the renderer (null elsewhere)
+ */
+export const useRenderContainer = (): RenderContainer | null =>
+  React.useContext(RenderContainerContext);
+
+// App-wide provider rendered around every root: once around the shared root in portal mode,
+// around each component elsewhere
+export interface RendererProvider {
+  name: string;
+  Provider: React.ComponentType<{ children?: React.ReactNode }>;
+  props: Record<string, unknown>;
+  // Lower orders wrap higher ones
+  order: number;
 }
 
+// Wrap children in the providers a definition has not opted out of, lowest order outermost
+const applyProviders = (
+  providers: RendererProvider[],
+  skip: boolean | string[] | undefined,
+  children: React.ReactNode
+): React.ReactNode =>
+  skip === true
+    ? children
+    : providers
+        .filter(provider => !skip || !skip.includes(provider.name))
+        .reduceRight<React.ReactNode>(
+          (wrapped, { Provider, props }) => <Provider {...props}>{wrapped}</Provider>,
+          children
+        );
+
+// Reports every commit of a render() call back to the renderer
+const CommitNotifier: React.FC<{ children: React.ReactNode; onCommit: () => void }> = ({
+  children,
+  onCommit,
+}) => {
+  React.useLayoutEffect(() => {
+    onCommit();
+  }, [onCommit]);
+
+  return <>{children}</>;
+};
+
+// Fallback rendered instead of the component when its props fail schema validation and no
+// error fallback is configured
+const PropValidationFallback: React.FC<{ error: PropValidationError; production: boolean }> = ({
+  error,
+  production,
+}) => (
+  <div className="p-4 border border-red-300 rounded-md bg-red-50">
+    <h3 className="text-red-800 font-medium">Invalid Component Props</h3>
+    {!production && (
+      <ul className="text-red-600 text-sm mt-1">
+        {error.errors.map((validationError, index) => (
+          <li key={index}>
+            <code>{validationError.path || 'props'}</code>: {validationError.message}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Providers of wrappers rendered through the shared portal root, which renders them itself
+const NO_PROVIDERS: RendererProvider[] = [];
+
+// Whether a definition's skipProviders opts out of any provider
+const skipsProviders = (skip: boolean | string[] | undefined): boolean =>
+  skip === true || (Array.isArray(skip) && skip.length > 0);
+
 // Universal React renderer wrapper component
 const UniversalReactWrapper: React.FC<{
   componentName: string;
   componentProps: Record<string, unknown>;
   onDataChange?: (data: unknown) => void;
-  onError?: (error: Error) => void;
+  onError?: (error: Error, errorInfo?: React.ErrorInfo) => void;
   statePath?: string;
+  containerId?: string;
+  registry: IComponentRegistry;
+  wrapperProps?: WrapperProps;
+  config: RendererConfig;
+  providers: RendererProvider[];
+  // Bumped whenever the component is replaced so the definition is looked up again
+  revision?: number;
 }> = React.memo(
-  ({ componentName, componentProps, onDataChange, onError }) => {
-    // Use useMemo to cache the component definition lookup
-    const componentDef = React.useMemo(() => {
-      return componentRegistry.get(componentName);
-    }, [componentName]);
+  ({
+    componentName,
+    componentProps,
+    onDataChange,
+    onError,
+    statePath,
+    containerId,
+    registry,
+    wrapperProps,
+    config,
+    providers,
+    revision,
+  }) => {
+    // Cache the definition lookup, keyed on what it depends on: the name, the registry and the
+    // revision bumped by replace(). A changed key looks it up again during this render.
+    const [lookup, setLookup] = React.useState(() => ({
+      componentName,
+      registry,
+      revision,
+      definition: registry.get(componentName),
+    }));
+    let componentDef = lookup.definition;
+    if (
+      lookup.componentName !== componentName ||
+      lookup.registry !== registry ||
+      lookup.revision !== revision
+    ) {
+      componentDef = registry.get(componentName);
+      setLookup({ componentName, registry, revision, definition: componentDef });
+    }
 
     // Always call useMemo for Component to avoid conditional hooks
-    const Component:
-      | React.ComponentType<Record<string, unknown>>
-      | React.LazyExoticComponent<React.ComponentType<Record<string, unknown>>>
-      | null = React.useMemo(() => {
-      if (!componentDef) return null;
-
-      if (componentDef.isAsync) {
-        // If isAsync is true, we assume componentDef.component is the function that returns a promise
-        return React.lazy(
-          componentDef.component as () => Promise<{
-            default: React.ComponentType<Record<string, unknown>>;
-          }>
-        );
-      } else {
-        // Otherwise, it's a regular React component type
-        return componentDef.component as React.ComponentType<Record<string, unknown>>;
+    const Component: React.ComponentType<Record<string, unknown>> | null = React.useMemo(() => {
+      if (!componentDef) {
+        // Suspend until a registration waiting on async middleware completes
+        if (!registry.isPending(componentName)) return null;
+
+        return React.lazy(async () => {
+          await registry.whenReady(componentName);
+          const ReadyComponent = registry.resolveComponent(componentName);
+          if (!ReadyComponent) {
+            throw new Error(`Component "${componentName}" not found in registry`);
+          }
+          return { default: ReadyComponent };
+        });
       }
-    }, [componentDef]);
+
+      // The definition's factory handles sync components, lazy loaders and custom kinds
+      return registry.resolveComponent(componentName);
+    }, [componentDef, componentName, registry]);
 
     // Use useMemo to prevent unnecessary re-renders when props haven't changed
     const mergedProps = React.useMemo(
@@ -102,33 +217,86 @@ const UniversalReactWrapper: React.FC<{
       [componentDef?.defaultProps, componentProps, onDataChange]
     );
 
+    const renderContainer = React.useMemo(
+      () => (containerId ? { containerId, statePath } : null),
+      [containerId, statePath]
+    );
+
     // Handle missing component after all hooks have been called
-    if (!componentDef || !Component) {
+    if (!Component) {
       const error = new Error(`Component "${componentName}" not found in registry`);
       onError?.(error);
+
+      if (config.errorFallback) {
+        const ErrorFallback = config.errorFallback;
+        return (
+          <ErrorFallback
+            error={error}
+            componentName={componentName}
+            retrying={false}
+            attempts={0}
+            production={config.production}
+          />
+        );
+      }
+
       return (
         <div className="p-4 border border-yellow-300 rounded-md bg-yellow-50">
-          <p className="text-yellow-800">
-            Component &quot;{componentName}&quot; not found. Available components:{' '}
-            {componentRegistry.getComponentNames().join(', ') || 'None'}
-          </p>
+          {config.production ? (
+            <p className="text-yellow-800">This component is currently unavailable.</p>
+          ) : (
+            <p className="text-yellow-800">
+              Component &quot;{componentName}&quot; not found. Available components:{' '}
+              {registry.getComponentNames().join(', ') || 'None'}
+            </p>
+          )}
         </div>
       );
     }
 
     return (
-      <ReactErrorBoundary onError={onError}>
-        <React.Suspense fallback={<div>Loading...</div>}>
-          <Component {...mergedProps} />
-        </React.Suspense>
-      </ReactErrorBoundary>
+      <RenderContainerContext.Provider value={renderContainer}>
+        <ReactErrorBoundary
+          onError={onError}
+          fallback={componentDef?.config?.errorFallback ?? config.errorFallback}
+          componentName={componentName}
+          maxRetries={config.maxRetries}
+          retryDelay={config.retryDelay}
+          production={config.production}
+        >
+          {applyProviders(
+            providers,
+            componentDef?.config?.skipProviders,
+            wrapperRegistry.apply(
+              <React.Suspense
+                fallback={
+                  componentDef?.config?.loadingFallback ??
+                  config.loadingFallback ?? <div>Loading...</div>
+                }
+              >
+                <Component {...mergedProps} />
+              </React.Suspense>,
+              componentDef?.config?.wrapper,
+              wrapperProps
+            )
+          )}
+        </ReactErrorBoundary>
+      </RenderContainerContext.Provider>
     );
   },
   (prevProps, nextProps) => {
     // Custom comparison function for memoization
     // Only re-render if component name changes or if props have changed
-    if (prevProps.componentName !== nextProps.componentName) {
-      return false; // Different component, should re-render
+    if (
+      prevProps.componentName !== nextProps.componentName ||
+      prevProps.registry !== nextProps.registry ||
+      prevProps.revision !== nextProps.revision ||
+      prevProps.statePath !== nextProps.statePath ||
+      prevProps.config !== nextProps.config ||
+      prevProps.providers !== nextProps.providers ||
+      JSON.stringify(prevProps.wrapperProps) !== JSON.stringify(nextProps.wrapperProps)
+    ) {
+      return false; // Something other than the component props changed
     }
 
     // Deep compare props to prevent unnecessary re-renders
@@ -162,37 +330,139 @@ const UniversalReactWrapper: React.FC<{
   }
 );
 
+UniversalReactWrapper.displayName = 'UniversalReactWrapper';
+
 // Universal React renderer class
 export class UniversalReactRenderer {
-  private roots: Map<string, Root> = new Map();
+  private roots: Map<string, ContainerRoot> = new Map();
+  private providers: RendererProvider[] = [];
+  // The shared providers sit outside the error boundary of each portal, so a boundary of their
+  // own shows the error fallback in every portal container when one of them throws
+  private portalHost: PortalHost = new PortalHost(children => (
+    <ReactErrorBoundary
+      onError={(error, errorInfo) => this.handleSharedProviderError(error, errorInfo)}
+      fallback={this.PortalErrorFallbacks}
+      maxRetries={this.config.maxRetries}
+      retryDelay={this.config.retryDelay}
+      production={this.config.production}
+    >
+      {applyProviders(this.providers, undefined, children)}
+    </ReactErrorBoundary>
+  ));
+  private readonly PortalErrorFallbacks: React.FC<IErrorFallbackProps> = fallbackProps => (
+    <>
+      {this.portalHost.getContainerIds().map(containerId => {
+        const container = this.containers.get(containerId);
+        const options = this.renderOptions.get(containerId);
+        if (!container || !options) return null;
+
+        const ErrorFallback = this.getErrorFallback(options.component, options.registry);
+        return createPortal(
+          <ErrorFallback {...fallbackProps} componentName={options.component} />,
+          container,
+          containerId
+        );
+      })}
+    </>
+  );
   private containers: Map<string, HTMLElement> = new Map();
+  // Last render options per container (component, props, statePath, callbacks), so containers
+  // can be updated and re-rendered on replace
+  private renderOptions: Map<string, ReactRendererProps> = new Map();
+  // Replacement count per component name
+  private revisions: Map<string, number> = new Map();
+  // Containers whose first render has committed
+  private mounted: Set<string> = new Set();
+  // Resolvers of render() calls waiting for their container to commit
+  private pendingCommits: Map<string, Array<() => void>> = new Map();
+  private listeners: Set<(event: RenderLifecycleEvent) => void> = new Set();
+  private config: RendererConfig = {
+    maxRetries: DEFAULT_MAX_RETRIES,
+    retryDelay: DEFAULT_RETRY_DELAY,
+    production: typeof process !== 'undefined' && process.env?.NODE_ENV === 'production',
+    portalMode: false,
+  };
 
   /**
-   * Render a React component in the specified container
+   * Configure error and loading fallbacks, retry limits, production mode and the error reporter.
+   * Applies to renders from now on; definitions can override the fallbacks in their config.
    */
-  render({
-    component,
-    props = {},
-    statePath,
-    containerId,
-    onDataChange,
-    onError,
-  }: ReactRendererProps): void {
+  configure(config: Partial<RendererConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): RendererConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Register an app-wide provider (state, theme, i18n...). Each root gets its own instance inside
+   * the component's error boundary; in portal mode one instance wraps the shared root.
+   * Applies to renders from now on; returns a function removing it.
+   */
+  addProvider<P extends object>(
+    Provider: React.ComponentType<P>,
+    props?: Omit<P, 'children'>,
+    options: { order?: number; name?: string } = {}
+  ): () => void {
+    const provider: RendererProvider = {
+      name: options.name ?? (Provider.displayName || Provider.name || 'Provider'),
+      // Rendered with the props given here, so its own props type no longer matters
+      Provider: Provider as React.ComponentType<{ children?: React.ReactNode }>,
+      props: { ...props },
+      order: options.order ?? 0,
+    };
+
+    // A new array so mounted wrappers notice the change on their next render
+    this.providers = [...this.providers, provider].sort((a, b) => a.order - b.order);
+
+    return () => {
+      this.providers = this.providers.filter(registered => registered !== provider);
+    };
+  }
+
+  /**
+   * Remove a provider by component or name
+   */
+  removeProvider<P extends object>(provider: React.ComponentType<P> | string): boolean {
+    const remaining = this.providers.filter(registered =>
+      typeof provider === 'string' ? registered.name !== provider : registered.Provider !== provider
+    );
+    const removed = remaining.length !== this.providers.length;
+    this.providers = remaining;
+    return removed;
+  }
+
+  getProviders(): RendererProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Render a React component in the specified container.
+   * Resolves once the render has been committed (immediately when rendering failed;
+   * failures are reported through onError and the `errored` lifecycle event).
+   */
+  render(options: ReactRendererProps): Promise<void> {
+    const {
+      component: requestedComponent,
+      props = {},
+      statePath,
+      containerId,
+      onDataChange,
+      onError,
+      registry,
+      wrapperProps,
+      portal,
+    } = options;
+
     try {
-      const container = document.getElementById(containerId);
-      if (!container) {
-        throw new Error(`Container element with ID "${containerId}" not found`);
-      }
+      const resolvedRegistry = typeof registry === 'object' ? registry : getRegistry(registry);
 
-      // Check if root already exists
-      let root = this.roots.get(containerId);
+      // Render aliases as the component they point to, so replace() finds the container
+      const component = resolvedRegistry.resolveAlias(requestedComponent, containerId);
 
-      if (!root) {
-        // Create new root only if it doesn't exist
-        root = createRoot(container);
-        this.roots.set(containerId, root);
-        this.containers.set(containerId, container);
-      }
+      const handleError = (error: Error, errorInfo?: React.ErrorInfo) =>
+        this.handleRenderError({ ...options, component }, error, errorInfo);
 
       // Enhanced data change handler with state path support (not using hooks here)
       const handleDataChange = (data: unknown) => {
@@ -206,41 +476,489 @@ export class UniversalReactRenderer {
         }
       };
 
-      root.render(
-        <UniversalReactWrapper
-          componentName={component}
-          componentProps={props}
-          onDataChange={handleDataChange}
-          onError={onError}
-          statePath={statePath}
-        />
+      // The shared root renders every provider, so definitions skipping any get a root of their own
+      const skipping = skipsProviders(resolvedRegistry.get(component)?.config?.skipProviders);
+      const usePortal = (portal ?? this.config.portalMode) && !skipping;
+      if (skipping && this.portalHost.has(containerId)) {
+        this.unmount(containerId);
+      }
+
+      const { element, validatedProps, validationError } = this.buildElement(
+        component,
+        resolvedRegistry,
+        props,
+        {
+          containerId,
+          onDataChange: handleDataChange,
+          onError: handleError,
+          statePath,
+          wrapperProps,
+          providers: this.rendersThroughPortal(containerId, usePortal)
+            ? NO_PROVIDERS
+            : this.providers,
+        }
       );
+
+      const committed = this.commit(containerId, element, {
+        componentName: component,
+        props: validatedProps,
+        portal: usePortal,
+      });
+      this.renderOptions.set(containerId, { ...options, component });
+      if (validationError) {
+        handleError(validationError);
+      }
+      return committed;
     } catch (error) {
       console.error('Error rendering React component:', error);
+      this.emit({
+        type: 'errored',
+        containerId,
+        componentName: requestedComponent,
+        props,
+        error: error as Error,
+      });
+      this.report({
+        error: error as Error,
+        componentName: requestedComponent,
+        containerId,
+        props,
+        timestamp: Date.now(),
+      });
       onError?.(error as Error);
+      return Promise.resolve();
     }
   }
 
   /**
-   * Update props for an already rendered component
+   * Build the element render() mounts for a component, without mounting it.
+   * Used to render components to HTML on the server; that markup hydrates on the client.
    */
-  updateProps(containerId: string, newProps: Record<string, unknown>): void {
-    const root = this.roots.get(containerId);
-    const container = this.containers.get(containerId);
+  createElement(
+    options: Pick<ReactRendererProps, 'component' | 'props' | 'registry' | 'wrapperProps'>
+  ): React.ReactElement {
+    const { component, props = {}, registry, wrapperProps } = options;
+    const resolvedRegistry = typeof registry === 'object' ? registry : getRegistry(registry);
+
+    return this.buildElement(resolvedRegistry.resolveAlias(component), resolvedRegistry, props, {
+      wrapperProps,
+    }).element;
+  }
+
+  /**
+   * Validate (and coerce) props against the component's prop schema and build the wrapper,
+   * or the validation fallback when they are invalid
+   */
+  private buildElement(
+    component: string,
+    registry: IComponentRegistry,
+    props: Record<string, unknown>,
+    handlers: Partial<
+      Pick<ReactRendererProps, 'containerId' | 'onDataChange' | 'statePath' | 'wrapperProps'>
+    > & {
+      onError?: (error: Error, errorInfo?: React.ErrorInfo) => void;
+      providers?: RendererProvider[];
+    }
+  ): {
+    element: React.ReactElement;
+    validatedProps: Record<string, unknown>;
+    validationError?: PropValidationError;
+  } {
+    const validation = registry.validateProps(component, props);
+    if (!validation.valid) {
+      const validationError = new PropValidationError(component, validation.errors);
+      // A configured error fallback takes the place of the built-in one
+      const ErrorFallback =
+        registry.get(component)?.config?.errorFallback ?? this.config.errorFallback;
+      return {
+        element: ErrorFallback ? (
+          <ErrorFallback
+            error={validationError}
+            componentName={component}
+            retrying={false}
+            attempts={0}
+            production={this.config.production}
+          />
+        ) : (
+          <PropValidationFallback error={validationError} production={this.config.production} />
+        ),
+        validatedProps: props,
+        validationError,
+      };
+    }
+
+    return {
+      element: (
+        <UniversalReactWrapper
+          componentName={component}
+          componentProps={validation.value}
+          registry={registry}
+          onDataChange={handlers.onDataChange}
+          onError={handlers.onError}
+          statePath={handlers.statePath}
+          containerId={handlers.containerId}
+          wrapperProps={handlers.wrapperProps}
+          config={this.config}
+          providers={handlers.providers ?? this.providers}
+          revision={this.revisions.get(component) || 0}
+        />
+      ),
+      validatedProps: validation.value,
+    };
+  }
+
+  /**
+   * Update the props of a rendered component, keeping its component, statePath and callbacks.
+   * 'merge' (default) shallow-merges into the current props, 'replace' swaps them.
+   */
+  updateProps(
+    containerId: string,
+    props: Record<string, unknown>,
+    options: { mode?: 'merge' | 'replace' } = {}
+  ): Promise<void> {
+    const record = this.getRecord(containerId);
+    if (!record) {
+      return Promise.resolve();
+    }
+
+    return this.render({
+      ...record,
+      props: options.mode === 'replace' ? props : { ...record.props, ...props },
+    });
+  }
+
+  /**
+   * Apply a JSON patch (RFC 6902) to the props of a rendered component
+   */
+  patchProps(containerId: string, patch: JsonPatchOperation[]): Promise<void> {
+    const record = this.getRecord(containerId);
+    if (!record) {
+      return Promise.resolve();
+    }
+
+    let props: Record<string, unknown>;
+    try {
+      props = applyJsonPatch(record.props || {}, patch);
+      if (!props || typeof props !== 'object' || Array.isArray(props)) {
+        throw new Error('Patched props must be an object');
+      }
+    } catch (error) {
+      console.error(`Failed to patch props of container "${containerId}":`, error);
+      record.onError?.(error as Error);
+      return Promise.resolve();
+    }
+
+    return this.render({ ...record, props });
+  }
 
-    if (!root || !container) {
+  /**
+   * Get the current (unvalidated) props of a rendered component
+   */
+  getProps(containerId: string): Record<string, unknown> | undefined {
+    return this.renderOptions.get(containerId)?.props;
+  }
+
+  private getRecord(containerId: string): ReactRendererProps | undefined {
+    const record = this.roots.has(containerId) ? this.renderOptions.get(containerId) : undefined;
+    if (!record) {
       console.warn(`No rendered component found for container "${containerId}"`);
-      return;
     }
+    return record;
+  }
+
+  /**
+   * Render an arbitrary element (e.g. the component gallery) in the specified container
+   */
+  renderElement(containerId: string, element: React.ReactElement): Promise<void> {
+    try {
+      const committed = this.commit(containerId, element);
+      this.renderOptions.delete(containerId);
+      return committed;
+    } catch (error) {
+      console.error('Error rendering React element:', error);
+      return Promise.resolve();
+    }
+  }
+
+  /**
+   * Render a component's error fallback in the specified container, e.g. when its lazy chunk
+   * failed to load before the component could be rendered, and report the error
+   */
+  renderError(
+    containerId: string,
+    component: string,
+    error: Error,
+    registry?: IComponentRegistry | string
+  ): Promise<void> {
+    const ErrorFallback = this.getErrorFallback(component, registry);
 
-    // Re-render with updated props
-    const existingData = container.dataset;
-    this.render({
-      component: existingData.component || '',
-      props: newProps,
-      statePath: existingData.statePath,
+    const committed = this.renderElement(
       containerId,
+      <ErrorFallback
+        error={error}
+        componentName={component}
+        retrying={false}
+        attempts={0}
+        production={this.config.production}
+      />
+    );
+    this.handleRenderError({ containerId, component, registry }, error);
+    return committed;
+  }
+
+  /**
+   * Get the error fallback of a component: its own, the configured one or the default
+   */
+  private getErrorFallback(
+    component: string,
+    registry?: IComponentRegistry | string
+  ): React.ComponentType<IErrorFallbackProps> {
+    const resolvedRegistry = typeof registry === 'object' ? registry : getRegistry(registry);
+    return (
+      resolvedRegistry.get(component)?.config?.errorFallback ??
+      this.config.errorFallback ??
+      DefaultErrorFallback
+    );
+  }
+
+  /**
+   * Report an error of a rendered component through the `errored` lifecycle event, the error
+   * reporter and its onError callback
+   */
+  private handleRenderError(
+    options: ReactRendererProps,
+    error: Error,
+    errorInfo?: React.ErrorInfo
+  ): void {
+    const { containerId, component, props = {}, onError } = options;
+    this.emit({ type: 'errored', containerId, componentName: component, props, error });
+    this.report({
+      error,
+      componentName: component,
+      containerId,
+      componentStack: errorInfo?.componentStack ?? undefined,
+      props,
+      timestamp: Date.now(),
     });
+    onError?.(error);
+  }
+
+  /**
+   * Report an error thrown by a shared provider for every container rendered through portals
+   */
+  private handleSharedProviderError(error: Error, errorInfo?: React.ErrorInfo): void {
+    this.portalHost.getContainerIds().forEach(containerId => {
+      const options = this.renderOptions.get(containerId);
+      if (options) {
+        this.handleRenderError(options, error, errorInfo);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to mount lifecycle events of every container.
+   * The same events are dispatched on the container as `react-<type>` DOM events (`errored` as
+   * `react-error`).
+   */
+  subscribe(listener: (event: RenderLifecycleEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Render an element into a container's root and resolve once it has committed.
+   * Renders queued before a commit are superseded by it, so they resolve together.
+   */
+  private commit(
+    containerId: string,
+    element: React.ReactElement,
+    details: { componentName?: string; props?: Record<string, unknown>; portal?: boolean } = {}
+  ): Promise<void> {
+    const { componentName, props, portal = this.config.portalMode } = details;
+    const isMounting = !this.roots.has(containerId) || !this.isCurrentContainer(containerId);
+    const root = this.getRoot(containerId, portal);
+
+    if (isMounting) {
+      this.emit({ type: 'mounting', containerId, componentName, props });
+    }
+
+    const committed = new Promise<void>(resolve => {
+      const pending = this.pendingCommits.get(containerId) || [];
+      pending.push(resolve);
+      this.pendingCommits.set(containerId, pending);
+    });
+
+    const handleCommit = () => {
+      // A render of a root that has since been unmounted or replaced
+      if (this.roots.get(containerId) !== root) return;
+
+      const type = this.mounted.has(containerId) ? 'updated' : 'mounted';
+      this.mounted.add(containerId);
+      if (type === 'mounted') {
+        devTools.trackRootMounted({
+          containerId,
+          componentName,
+          container: this.containers.get(containerId)!,
+        });
+      }
+      this.emit({ type, containerId, componentName, props });
+
+      const pending = this.pendingCommits.get(containerId) || [];
+      this.pendingCommits.delete(containerId);
+      pending.forEach(resolve => resolve());
+    };
+
+    root.render(<CommitNotifier onCommit={handleCommit}>{element}</CommitNotifier>);
+
+    return committed;
+  }
+
+  /**
+   * Whether a container renders (or will render) through the shared portal root
+   */
+  private rendersThroughPortal(containerId: string, portal: boolean): boolean {
+    const container = document.getElementById(containerId);
+    if (this.roots.has(containerId) && this.containers.get(containerId) === container) {
+      return this.portalHost.has(containerId);
+    }
+
+    return portal && container?.dataset.reactSsr !== 'true';
+  }
+
+  /**
+   * Get the root for a container, creating it on first use (a portal into the shared root
+   * in portal mode, a hydrating root for server-rendered markup). A container that was
+   * replaced in the DOM (e.g. by a Livewire morph) gets a new root.
+   */
+  private getRoot(containerId: string, portal: boolean): ContainerRoot {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element with ID "${containerId}" not found`);
+    }
+
+    if (this.roots.has(containerId) && this.containers.get(containerId) !== container) {
+      this.unmount(containerId);
+    }
+
+    // Check if root already exists
+    let root = this.roots.get(containerId);
+
+    if (!root) {
+      // Create new root only if it doesn't exist
+      // Server-rendered markup is hydrated in place, so it never moves into the portal root
+      root =
+        container.dataset.reactSsr === 'true'
+          ? this.createHydrationRoot(containerId, container)
+          : portal
+            ? this.portalHost.createRoot(containerId, container)
+            : createRoot(container);
+      this.roots.set(containerId, root);
+      this.containers.set(containerId, container);
+    }
+
+    return root;
+  }
+
+  /**
+   * Create a root that hydrates the container's server markup on its first render.
+   * Mismatches React recovers from (by re-rendering on the client) are reported to DevTools.
+   */
+  private createHydrationRoot(containerId: string, container: HTMLElement): ContainerRoot {
+    let root: Root | null = null;
+
+    return {
+      render: children => {
+        if (root) {
+          root.render(children);
+          return;
+        }
+
+        // Hydrate once: after an unmount the container no longer holds server markup
+        delete container.dataset.reactSsr;
+        root = hydrateRoot(container, children, {
+          onRecoverableError: (error, errorInfo) => {
+            const componentName = this.renderOptions.get(containerId)?.component;
+            console.warn(`Hydration mismatch in container "${containerId}":`, error);
+            devTools.trackHydrationMismatch({
+              containerId,
+              componentName,
+              message: error instanceof Error ? error.message : String(error),
+              componentStack: errorInfo?.componentStack ?? undefined,
+            });
+          },
+        });
+      },
+      unmount: () => root?.unmount(),
+    };
+  }
+
+  private isCurrentContainer(containerId: string): boolean {
+    return this.containers.get(containerId) === document.getElementById(containerId);
+  }
+
+  /**
+   * Send an error to the configured reporter; reporter failures are only logged
+   */
+  private report(report: IErrorReport): void {
+    const { reporter } = this.config;
+    if (!reporter) return;
+
+    try {
+      void Promise.resolve(reporter(report)).catch(error => {
+        console.error('Error reporter failed:', error);
+      });
+    } catch (error) {
+      console.error('Error reporter failed:', error);
+    }
+  }
+
+  private emit(event: RenderLifecycleEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in render lifecycle listener:', error);
+      }
+    });
+
+    const container = this.containers.get(event.containerId);
+    if (!container) return;
+
+    const detail = {
+      containerId: event.containerId,
+      componentName: event.componentName,
+      props: event.props,
+      // The Blade views read the message; invalid props also carry their structured errors
+      error: event.error?.message,
+      message: event.error?.message,
+      errors: event.error instanceof PropValidationError ? event.error.errors : undefined,
+    };
+    // Errors are dispatched as react-error, the event the Blade views listen to
+    const name = event.type === 'errored' ? 'react-error' : `react-${event.type}`;
+    container.dispatchEvent(new CustomEvent(name, { detail, bubbles: true }));
+
+    // react-field.blade.php removes its loading indicator on react-loaded
+    if (event.type === 'mounted') {
+      container.dispatchEvent(new CustomEvent('react-loaded', { detail, bubbles: true }));
+    }
+  }
+
+  /**
+   * Re-render every active container showing the given component, keeping its props and statePath.
+   * Called by the registry when a component is replaced (e.g. on hot module replacement).
+   */
+  refresh(componentName: string): string[] {
+    this.revisions.set(componentName, (this.revisions.get(componentName) || 0) + 1);
+
+    const refreshed: string[] = [];
+    this.renderOptions.forEach((options, containerId) => {
+      if (options.component === componentName && this.roots.has(containerId)) {
+        this.render(options);
+        refreshed.push(containerId);
+      }
+    });
+
+    return refreshed;
   }
 
   /**
@@ -249,9 +967,22 @@ export class UniversalReactRenderer {
   unmount(containerId: string): void {
     const root = this.roots.get(containerId);
     if (root) {
+      const componentName = this.renderOptions.get(containerId)?.component;
+      this.emit({ type: 'unmounting', containerId, componentName });
+
       root.unmount();
+      this.emit({ type: 'unmounted', containerId, componentName });
+      devTools.trackRootUnmounted(containerId);
+
       this.roots.delete(containerId);
       this.containers.delete(containerId);
+      this.renderOptions.delete(containerId);
+      this.mounted.delete(containerId);
+
+      // Renders that never committed have nothing left to wait for
+      const pending = this.pendingCommits.get(containerId) || [];
+      this.pendingCommits.delete(containerId);
+      pending.forEach(resolve => resolve());
     }
   }
 
@@ -271,6 +1002,20 @@ export class UniversalReactRenderer {
     }
   }
 
+  /**
+   * Check whether a container renders through the shared portal root
+   */
+  isPortal(containerId: string): boolean {
+    return this.portalHost.has(containerId);
+  }
+
+  /**
+   * Get the element a container's root renders into
+   */
+  getContainer(containerId: string): HTMLElement | undefined {
+    return this.containers.get(containerId);
+  }
+
   /**
    * Get list of active container IDs
    */
@@ -0,0 +1,117 @@
+import React from 'react';
+import type { IComponentConfig } from '../interfaces/IComponentRegistry';
+
+// Wrappers render their children; named ones also get their entry of the wrapper props
+export type ComponentWrapper = React.ComponentType<{ children?: React.ReactNode }>;
+
+// Wrapper-specific props keyed by wrapper name (from `data-react-wrapper-props`)
+export type WrapperProps = Record<string, Record<string, unknown>>;
+
+// Filament card chrome
+const CardWrapper: React.FC<{
+  children?: React.ReactNode;
+  heading?: string;
+  description?: string;
+}> = ({ children, heading, description }) => (
+  <div className="fi-section rounded-xl bg-white shadow-sm ring-1 ring-gray-950/5 dark:bg-gray-900 dark:ring-white/10">
+    {(heading || description) && (
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-white/10">
+        {heading && (
+          <h3 className="text-base font-semibold text-gray-950 dark:text-white">{heading}</h3>
+        )}
+        {description && <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>}
+      </div>
+    )}
+    <div className="p-6">{children}</div>
+  </div>
+);
+
+// Titled section without the card chrome
+const SectionWrapper: React.FC<{ children?: React.ReactNode; heading?: string }> = ({
+  children,
+  heading,
+}) => (
+  <section className="space-y-2">
+    {heading && (
+      <h3 className="text-base font-semibold text-gray-950 dark:text-white">{heading}</h3>
+    )}
+    {children}
+  </section>
+);
+
+// Named wrappers that component definitions reference through config.wrapper
+export class WrapperRegistry {
+  private wrappers: Map<string, ComponentWrapper> = new Map();
+
+  constructor() {
+    this.register('card', CardWrapper);
+    this.register('section', SectionWrapper);
+  }
+
+  /**
+   * Register (or replace) a named wrapper
+   */
+  register<P extends object>(name: string, wrapper: React.ComponentType<P>): void {
+    this.wrappers.set(name, wrapper as ComponentWrapper);
+  }
+
+  unregister(name: string): boolean {
+    return this.wrappers.delete(name);
+  }
+
+  get(name: string): ComponentWrapper | undefined {
+    return this.wrappers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.wrappers.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.wrappers.keys());
+  }
+
+  /**
+   * Resolve config.wrapper into wrapper components, outermost first.
+   * Unknown names are skipped with a warning.
+   */
+  resolve(
+    wrapper: IComponentConfig['wrapper']
+  ): Array<{ name?: string; component: ComponentWrapper }> {
+    const entries = wrapper === undefined ? [] : Array.isArray(wrapper) ? wrapper : [wrapper];
+
+    return entries.flatMap(entry => {
+      if (typeof entry !== 'string') {
+        return [{ component: entry }];
+      }
+
+      const component = this.wrappers.get(entry);
+      if (!component) {
+        console.warn(`Component wrapper "${entry}" is not registered`);
+        return [];
+      }
+      return [{ name: entry, component }];
+    });
+  }
+
+  /**
+   * Wrap an element in the given wrappers, passing each named wrapper its own props
+   */
+  apply(
+    element: React.ReactNode,
+    wrapper: IComponentConfig['wrapper'],
+    props: WrapperProps = {}
+  ): React.ReactNode {
+    return this.resolve(wrapper).reduceRight<React.ReactNode>(
+      (children, { name, component: Wrapper }) => (
+        <Wrapper {...(name ? props[name] : undefined)}>{children}</Wrapper>
+      ),
+      element
+    );
+  }
+}
+
+// Global singleton instance
+export const wrapperRegistry = new WrapperRegistry();
+
+export default wrapperRegistry;
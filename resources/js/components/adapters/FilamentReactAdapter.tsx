@@ -1,9 +1,48 @@
 import { universalReactRenderer } from '../UniversalReactRenderer';
+import { getRegistry } from '../ReactComponentRegistry';
+import type { WrapperProps } from '../WrapperRegistry';
+import { globalStateManager } from '../StateManager';
+import { statePersistenceService } from '../../services/StatePersistenceService';
+import { deliverServerValues, setCommitHookActive } from '../LivewireEntangle';
+
+// When a container mounts (data-react-mount): right away, once scrolled into view,
+// when the browser is idle, or on first focus/click
+export type MountStrategy = 'eager' | 'visible' | 'idle' | 'interaction';
+
+// State manager path of the snapshots kept for containers unmounted while offscreen
+const OFFSCREEN_STATE_PATH = 'reactWrapper.offscreen';
+// State manager path of the snapshots kept for data-react-keep-state containers left by navigation
+const NAVIGATION_STATE_PATH = 'reactWrapper.navigation';
+
+const CONTAINER_SELECTOR = '[data-react-component]:not([data-react-rendered])';
+
+// Payload of Livewire 3's morph hooks
+interface MorphContext {
+  el: Node;
+  toEl?: Node;
+  skip?: () => void;
+}
 
 // Filament-specific adapter for React components
 export class FilamentReactAdapter {
   static scanTimeout: number | null = null;
   static mutationObserver: MutationObserver | null = null;
+  // Subtrees waiting for the debounced scan
+  private static scanRoots: Set<Element> = new Set();
+  private static livewireHooked = false;
+  private static livewireUnhooks: Array<() => void> = [];
+  static visibilityObserver: IntersectionObserver | null = null;
+  // Containers waiting for their mount strategy to fire
+  private static scheduled: WeakSet<HTMLElement> = new WeakSet();
+  // Offscreen unmount timers and last onDataChange data of data-react-unmount-offscreen containers
+  private static offscreenTimers: Map<HTMLElement, number> = new Map();
+  private static lastData: Map<string, unknown> = new Map();
+  // data-react-persist containers carried across wire:navigate, keyed by their persist key
+  private static persisted: Map<string, HTMLElement> = new Map();
+  // Containers already released by navigation, so their removal is not handled again
+  private static released: WeakSet<HTMLElement> = new WeakSet();
+  // State paths of the page navigated away from, released once the next page is in
+  private static navigatedStatePaths: Set<string> = new Set();
   /**
    * Initialize React components in Filament context
    */
@@ -22,23 +61,36 @@ export class FilamentReactAdapter {
   }
 
   /**
-   * Scan DOM for React component containers and render them
+   * Scan the document (or a changed subtree) for React component containers and render them
    */
-  private static scanAndRenderComponents(): void {
-    const containers = document.querySelectorAll(
-      '[data-react-component]:not([data-react-rendered])'
-    );
+  private static scanAndRenderComponents(root: Element | typeof document = document): void {
+    const containers: HTMLElement[] = [];
+    const candidates = Array.from(root.querySelectorAll<HTMLElement>(CONTAINER_SELECTOR));
+    if (root instanceof HTMLElement && root.matches(CONTAINER_SELECTOR)) {
+      candidates.unshift(root);
+    }
+
+    candidates.forEach(element => {
+      if (this.scheduled.has(element)) return;
+
+      const strategy = this.getMountStrategy(element);
+      if (strategy === 'eager') {
+        containers.push(element);
+      } else {
+        this.scheduleMount(element, strategy);
+      }
+    });
 
     // Process containers in batches to avoid blocking the main thread
     const processContainers = (
-      containers: NodeListOf<Element>,
+      containers: HTMLElement[],
       startIndex: number,
       batchSize: number
     ) => {
       const endIndex = Math.min(startIndex + batchSize, containers.length);
 
       for (let i = startIndex; i < endIndex; i++) {
-        this.renderComponent(containers[i] as HTMLElement);
+        this.renderComponent(containers[i]!);
       }
 
       // Process next batch if there are more containers
@@ -53,6 +105,154 @@ export class FilamentReactAdapter {
     processContainers(containers, 0, 5);
   }
 
+  private static getMountStrategy(element: HTMLElement): MountStrategy {
+    const strategy = element.dataset.reactMount;
+    if (!strategy || strategy === 'eager') return 'eager';
+
+    if (strategy !== 'visible' && strategy !== 'idle' && strategy !== 'interaction') {
+      console.warn(`Unknown data-react-mount strategy "${strategy}", mounting eagerly:`, element);
+      return 'eager';
+    }
+    return strategy;
+  }
+
+  /**
+   * Defer mounting a container until its strategy fires.
+   * Browsers without IntersectionObserver or requestIdleCallback fall back to mounting right away.
+   */
+  private static scheduleMount(element: HTMLElement, strategy: MountStrategy): void {
+    this.scheduled.add(element);
+
+    const mount = () => {
+      this.scheduled.delete(element);
+      if (element.isConnected && !element.hasAttribute('data-react-rendered')) {
+        this.renderComponent(element);
+      }
+    };
+
+    switch (strategy) {
+      case 'visible':
+        if (typeof IntersectionObserver === 'undefined') {
+          mount();
+          return;
+        }
+        this.getVisibilityObserver().observe(element);
+        return;
+      case 'idle':
+        if (typeof window.requestIdleCallback === 'function') {
+          window.requestIdleCallback(mount, { timeout: 2000 });
+        } else {
+          setTimeout(mount, 1);
+        }
+        return;
+      case 'interaction': {
+        const events = ['focusin', 'pointerdown', 'click'] as const;
+        const handleInteraction = () => {
+          events.forEach(type => element.removeEventListener(type, handleInteraction));
+          mount();
+        };
+        events.forEach(type => element.addEventListener(type, handleInteraction));
+        return;
+      }
+      default:
+        mount();
+    }
+  }
+
+  /**
+   * Shared observer of `visible` containers: mounts them when they scroll into view and,
+   * with data-react-unmount-offscreen="<ms>", unmounts them once they stay out of view that long
+   */
+  private static getVisibilityObserver(): IntersectionObserver {
+    if (!this.visibilityObserver) {
+      this.visibilityObserver = new IntersectionObserver(
+        entries => {
+          entries.forEach(({ target, isIntersecting }) => {
+            const element = target as HTMLElement;
+            const unmountDelay = Number(element.dataset.reactUnmountOffscreen);
+
+            if (isIntersecting) {
+              this.clearOffscreenTimer(element);
+              if (!element.hasAttribute('data-react-rendered')) {
+                this.scheduled.delete(element);
+                this.renderComponent(element);
+              }
+              if (!(unmountDelay > 0)) {
+                this.visibilityObserver?.unobserve(element);
+              }
+            } else if (unmountDelay > 0 && element.hasAttribute('data-react-rendered')) {
+              this.clearOffscreenTimer(element);
+              this.offscreenTimers.set(
+                element,
+                window.setTimeout(() => this.unmountOffscreen(element), unmountDelay)
+              );
+            }
+          });
+        },
+        // Start mounting a little before containers enter the viewport
+        { rootMargin: '200px' }
+      );
+    }
+
+    return this.visibilityObserver;
+  }
+
+  private static clearOffscreenTimer(element: HTMLElement): void {
+    const timer = this.offscreenTimers.get(element);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.offscreenTimers.delete(element);
+    }
+  }
+
+  /**
+   * Unmount an offscreen container, keeping its current props and last emitted data in the
+   * state manager so it comes back where it left off (the data as `initialData`)
+   */
+  private static unmountOffscreen(element: HTMLElement): void {
+    this.offscreenTimers.delete(element);
+    if (!element.id || !universalReactRenderer.hasActiveComponent(element.id)) return;
+
+    globalStateManager.setState(`${OFFSCREEN_STATE_PATH}.${element.id}`, {
+      props: universalReactRenderer.getProps(element.id),
+      data: this.lastData.get(element.id),
+    });
+
+    // Keep the container's height so the content around it does not jump
+    element.style.minHeight = `${element.offsetHeight}px`;
+    universalReactRenderer.unmount(element.id);
+    element.removeAttribute('data-react-rendered');
+    // Still observed, so it mounts again when scrolled back into view
+    this.scheduled.add(element);
+  }
+
+  /**
+   * Take the snapshot of a container unmounted while offscreen, if any
+   */
+  private static restoreOffscreen(element: HTMLElement): Record<string, unknown> | undefined {
+    const props = this.takeSnapshot(`${OFFSCREEN_STATE_PATH}.${element.id}`);
+    if (props) {
+      element.style.minHeight = '';
+    }
+
+    return props;
+  }
+
+  /**
+   * Take a `{ props, data }` snapshot out of the state manager as props (the data as `initialData`)
+   */
+  private static takeSnapshot(path: string): Record<string, unknown> | undefined {
+    const snapshot = globalStateManager.getState(path) as
+      { props?: Record<string, unknown>; data?: unknown } | undefined;
+    if (!snapshot) return undefined;
+
+    globalStateManager.setState(path, undefined);
+
+    return snapshot.data === undefined
+      ? snapshot.props
+      : { ...snapshot.props, initialData: snapshot.data };
+  }
+
   /**
    * Render a single React component
    */
@@ -60,6 +260,9 @@ export class FilamentReactAdapter {
     const componentName = element.dataset.reactComponent;
     const propsData = element.dataset.reactProps;
     const statePath = element.dataset.reactStatePath;
+    const registryScope = element.dataset.reactRegistry;
+    const wrapperPropsData = element.dataset.reactWrapperProps;
+    const portal = element.dataset.reactPortal;
 
     if (!componentName) {
       console.warn('React component container missing component name:', element);
@@ -87,45 +290,96 @@ export class FilamentReactAdapter {
           props = {};
         }
       }
-
-      // Use a small timeout to stagger rendering and improve perceived performance
-      setTimeout(() => {
+      // Containers unmounted while offscreen or by navigation come back with the props they had
+      props =
+        this.restoreOffscreen(element) ??
+        this.takeSnapshot(`${NAVIGATION_STATE_PATH}.${element.id}`) ??
+        props;
+
+      let wrapperProps: WrapperProps | undefined;
+      if (wrapperPropsData) {
         try {
-          // Render the component using the universal renderer
-          universalReactRenderer.render({
-            component: componentName,
-            props: props,
-            containerId: element.id,
-            statePath: statePath,
-            onDataChange: data => {
-              // Emit custom event for Filament/Livewire integration
-              if (statePath) {
-                element.dispatchEvent(
-                  new CustomEvent('react-data-change', {
-                    detail: { data, statePath },
-                    bubbles: true,
-                  })
-                );
-              }
-            },
-            onError: error => {
-              console.error(`Error in Filament React component "${componentName}":`, error);
+          wrapperProps = JSON.parse(wrapperPropsData);
+        } catch (parseError) {
+          console.warn(
+            `Invalid JSON in data-react-wrapper-props for component "${componentName}":`,
+            parseError
+          );
+        }
+      }
 
-              // Remove the rendered flag so it can be retried
-              element.removeAttribute('data-react-rendered');
+      // The renderer dispatches react-error on the container
+      const handleError = (error: Error) => {
+        console.error(`Error in Filament React component "${componentName}":`, error);
+
+        // Remove the rendered flag so it can be retried
+        element.removeAttribute('data-react-rendered');
+      };
+
+      const render = () => {
+        // Render the component using the universal renderer
+        universalReactRenderer.render({
+          component: componentName,
+          props: props,
+          containerId: element.id,
+          statePath: statePath,
+          registry: registryScope,
+          wrapperProps,
+          // data-react-portal="true" / "false" overrides the renderer's portalMode
+          portal: portal === undefined ? undefined : portal !== 'false',
+          onDataChange: data => {
+            if (
+              element.dataset.reactUnmountOffscreen ||
+              element.hasAttribute('data-react-keep-state')
+            ) {
+              this.lastData.set(element.id, data);
+            }
 
-              // Emit error event
+            // Emit custom event for Filament/Livewire integration
+            if (statePath) {
               element.dispatchEvent(
-                new CustomEvent('react-error', {
-                  detail: {
-                    error: error instanceof Error ? error.message : String(error),
-                    componentName,
-                  },
+                new CustomEvent('react-data-change', {
+                  detail: { data, statePath },
                   bubbles: true,
                 })
               );
-            },
-          });
+            }
+          },
+          onError: handleError,
+        });
+      };
+
+      // Use a small timeout to stagger rendering and improve perceived performance
+      setTimeout(() => {
+        try {
+          if (element.dataset.lazy !== 'true') {
+            render();
+            return;
+          }
+
+          // Lazy containers keep their Blade loading indicator until the component has loaded
+          const registry = getRegistry(registryScope);
+          const handleLoadError = (error: Error) => {
+            handleError(error);
+            void universalReactRenderer.renderError(
+              element.id,
+              componentName,
+              error,
+              registryScope
+            );
+          };
+          registry
+            .load(componentName)
+            .then(component => {
+              if (!component && registry.has(componentName)) {
+                handleLoadError(new Error(`Component "${componentName}" failed to load`));
+                return;
+              }
+              render();
+            })
+            .catch(error =>
+              handleLoadError(error instanceof Error ? error : new Error(String(error)))
+            );
         } catch (error) {
           // This catch block handles errors that occur before the component is rendered
           // For example, errors in parsing props or finding the component
@@ -139,6 +393,7 @@ export class FilamentReactAdapter {
             new CustomEvent('react-error', {
               detail: {
                 error: error instanceof Error ? error.message : String(error),
+                message: error instanceof Error ? error.message : String(error),
                 componentName,
               },
               bubbles: true,
@@ -163,38 +418,41 @@ export class FilamentReactAdapter {
     }
 
     this.mutationObserver = new MutationObserver(mutations => {
-      let hasNewComponents = false;
+      const removedNodes: Element[] = [];
 
       mutations.forEach(mutation => {
+        mutation.removedNodes.forEach(node => {
+          if (node.nodeType === Node.ELEMENT_NODE) {
+            removedNodes.push(node as Element);
+          }
+        });
+
         mutation.addedNodes.forEach(node => {
           if (node.nodeType === Node.ELEMENT_NODE) {
             const element = node as Element;
 
-            // Check if the node itself is a React component container
-            if (element.hasAttribute('data-react-component')) {
-              hasNewComponents = true;
-            }
-
-            // Check for React component containers within the added node
-            if (element.querySelectorAll('[data-react-component]').length > 0) {
-              hasNewComponents = true;
+            // Only the added subtree needs scanning
+            if (
+              element.hasAttribute('data-react-component') ||
+              element.querySelector('[data-react-component]')
+            ) {
+              this.queueScan(element);
             }
           }
         });
       });
 
-      if (hasNewComponents) {
-        // Clear existing timeout
-        if (this.scanTimeout) {
-          clearTimeout(this.scanTimeout);
-        }
+      // Nodes moved within the document (e.g. by a Livewire morph) are connected again by now
+      removedNodes.forEach(node => {
+        if (node.isConnected) return;
 
-        // Debounce to avoid excessive re-rendering
-        this.scanTimeout = window.setTimeout(() => {
-          this.scanAndRenderComponents();
-          this.scanTimeout = null;
-        }, 100);
-      }
+        if (node.hasAttribute('data-react-component')) {
+          this.handleRemovedContainer(node as HTMLElement);
+        }
+        node
+          .querySelectorAll<HTMLElement>('[data-react-component]')
+          .forEach(element => this.handleRemovedContainer(element));
+      });
     });
 
     this.mutationObserver.observe(document.body, {
@@ -203,6 +461,253 @@ export class FilamentReactAdapter {
     });
   }
 
+  /**
+   * Queue a changed subtree for the debounced scan
+   */
+  private static queueScan(root: Element): void {
+    this.scanRoots.add(root);
+
+    // Clear existing timeout
+    if (this.scanTimeout) {
+      clearTimeout(this.scanTimeout);
+    }
+
+    // Debounce to avoid excessive re-rendering
+    this.scanTimeout = window.setTimeout(() => {
+      const roots = Array.from(this.scanRoots);
+      this.scanRoots.clear();
+      this.scanTimeout = null;
+
+      roots
+        .filter(root => root.isConnected)
+        // Subtrees inside another queued subtree are scanned with it
+        .filter(root => !roots.some(other => other !== root && other.contains(root)))
+        .forEach(root => this.scanAndRenderComponents(root));
+    }, 100);
+  }
+
+  /**
+   * Integrate with Livewire 3's JS hooks: keep React containers out of morphs (applying their new
+   * props instead), scan morphed subtrees and push server state after every commit.
+   * Waits for livewire:init when Livewire loads later; pages without Livewire 3 keep relying on the
+   * mutation observer and livewire:update events.
+   */
+  static setupLivewireHooks(): void {
+    if (this.livewireHooked) return;
+
+    const livewire = window.Livewire;
+    if (!livewire?.hook) {
+      document.addEventListener('livewire:init', () => this.setupLivewireHooks(), { once: true });
+      return;
+    }
+    this.livewireHooked = true;
+
+    // Livewire returns an unregister function from hook()
+    const hook: NonNullable<typeof livewire.hook> = (name, callback) => {
+      const unhook = livewire.hook!(name, callback);
+      if (typeof unhook === 'function') {
+        this.livewireUnhooks.push(unhook as () => void);
+      }
+    };
+    const scanMorphed = ({ el }: MorphContext) => {
+      if (el.nodeType === Node.ELEMENT_NODE) {
+        this.queueScan(el as Element);
+      }
+    };
+
+    hook('morph.updating', (context: MorphContext) => this.handleMorphUpdating(context));
+    hook('morph.updated', scanMorphed);
+    hook('morph.added', scanMorphed);
+
+    hook('commit', ({ component, succeed }) => {
+      succeed(() => deliverServerValues(component.el, component.$wire));
+    });
+    setCommitHookActive(true);
+
+    // Run pending persistence saves now instead of after their debounce. This does not hold the
+    // request back: values they sync to Livewire go out with the next request.
+    hook('request', () => statePersistenceService.flush());
+  }
+
+  /**
+   * Keep a mounted container out of a morph, applying the props the server rendered for it.
+   * A container that now holds a different component is unmounted and morphed normally.
+   */
+  private static handleMorphUpdating({ el, toEl, skip }: MorphContext): void {
+    if (el.nodeType !== Node.ELEMENT_NODE || !toEl || !skip) return;
+
+    const element = el as HTMLElement;
+    if (!element.id || !universalReactRenderer.hasActiveComponent(element.id)) return;
+
+    const next = toEl as HTMLElement;
+    if (next.dataset.reactComponent !== element.dataset.reactComponent) {
+      universalReactRenderer.unmount(element.id);
+      element.removeAttribute('data-react-rendered');
+      return;
+    }
+
+    const nextProps = next.dataset.reactProps;
+    if (nextProps !== undefined && nextProps !== element.dataset.reactProps) {
+      try {
+        universalReactRenderer.updateProps(element.id, JSON.parse(nextProps), {
+          mode: 'replace',
+        });
+        element.dataset.reactProps = nextProps;
+      } catch (error) {
+        console.warn(`Invalid JSON in morphed data-react-props of "${element.id}":`, error);
+      }
+    }
+
+    // React owns the container's children
+    skip();
+  }
+
+  /**
+   * Unmount the root of a container that left the document and release what was tied to it:
+   * mount scheduling, offscreen snapshots and the persistence of its state path
+   */
+  private static handleRemovedContainer(element: HTMLElement): void {
+    if (this.released.has(element) || this.isPersisted(element)) return;
+
+    this.releaseContainer(element, 'removed');
+    this.releaseStatePath(element.dataset.reactStatePath);
+  }
+
+  /**
+   * Unmount a container's root and drop its scheduling and offscreen state. Containers left by
+   * navigation with data-react-keep-state first save their props and last data.
+   */
+  private static releaseContainer(element: HTMLElement, reason: 'removed' | 'navigated'): void {
+    this.visibilityObserver?.unobserve(element);
+    this.clearOffscreenTimer(element);
+    this.scheduled.delete(element);
+
+    const containerId = element.id;
+    if (!containerId) return;
+
+    const owned = universalReactRenderer.getContainer(containerId) === element;
+    const offscreenPath = `${OFFSCREEN_STATE_PATH}.${containerId}`;
+    const offscreen = globalStateManager.getState(offscreenPath);
+    if (offscreen !== undefined) {
+      globalStateManager.setState(offscreenPath, undefined);
+    }
+
+    if (reason === 'navigated' && element.hasAttribute('data-react-keep-state')) {
+      globalStateManager.setState(
+        `${NAVIGATION_STATE_PATH}.${containerId}`,
+        owned
+          ? {
+              props: universalReactRenderer.getProps(containerId),
+              data: this.lastData.get(containerId),
+            }
+          : offscreen
+      );
+    }
+    this.lastData.delete(containerId);
+
+    // The id may already belong to a replacement container rendered in its place
+    if (owned) {
+      universalReactRenderer.unmount(containerId);
+      element.removeAttribute('data-react-rendered');
+
+      // The container's own react-unmounted event cannot bubble out of a detached tree
+      if (!element.isConnected) {
+        document.dispatchEvent(
+          new CustomEvent('react-unmounted', {
+            detail: { containerId, componentName: element.dataset.reactComponent, removed: true },
+          })
+        );
+      }
+    }
+  }
+
+  private static isPersisted(element: HTMLElement): boolean {
+    const key = element.dataset.reactPersist;
+    return key !== undefined && this.persisted.get(key) === element;
+  }
+
+  /**
+   * Before wire:navigate swaps the page: set mounted data-react-persist containers aside and
+   * release every other container, flushing persisted state so it is not lost with the page
+   */
+  static handleNavigating(): void {
+    if (this.scanTimeout) {
+      clearTimeout(this.scanTimeout);
+      this.scanTimeout = null;
+    }
+    this.scanRoots.clear();
+
+    document.querySelectorAll<HTMLElement>('[data-react-component]').forEach(element => {
+      const key = element.dataset.reactPersist;
+      if (key && element.id && universalReactRenderer.getContainer(element.id) === element) {
+        // Detached before the swap, so the root keeps running while the page changes
+        this.persisted.set(key, element);
+        element.remove();
+        return;
+      }
+
+      this.releaseContainer(element, 'navigated');
+      this.released.add(element);
+      if (element.dataset.reactStatePath) {
+        this.navigatedStatePaths.add(element.dataset.reactStatePath);
+      }
+    });
+
+    statePersistenceService.flush();
+  }
+
+  /**
+   * After wire:navigate swapped the page: move persisted containers into the placeholders with
+   * their key (releasing those the new page does not have) and mount the new page's containers
+   */
+  static handleNavigated(): void {
+    const placeholders = new Map<string, HTMLElement>();
+    document.querySelectorAll<HTMLElement>('[data-react-persist]').forEach(element => {
+      placeholders.set(element.dataset.reactPersist!, element);
+    });
+
+    this.persisted.forEach((element, key) => {
+      const placeholder = placeholders.get(key);
+      this.persisted.delete(key);
+
+      if (placeholder && placeholder !== element) {
+        this.released.add(placeholder);
+        placeholder.replaceWith(element);
+      } else if (!placeholder) {
+        this.releaseContainer(element, 'removed');
+        if (element.dataset.reactStatePath) {
+          this.navigatedStatePaths.add(element.dataset.reactStatePath);
+        }
+      }
+    });
+
+    this.navigatedStatePaths.forEach(statePath => this.releaseStatePath(statePath));
+    this.navigatedStatePaths.clear();
+
+    // The body was replaced, so the mutation observer has to watch the new one
+    this.initializeComponents();
+  }
+
+  /**
+   * Flush and drop persistence registered under a state path no remaining container uses
+   */
+  private static releaseStatePath(statePath: string | undefined): void {
+    if (!statePath) return;
+
+    const inUse = Array.from(
+      document.querySelectorAll<HTMLElement>('[data-react-state-path]')
+    ).some(element => element.dataset.reactStatePath === statePath);
+    if (inUse) return;
+
+    statePersistenceService
+      .getRegisteredKeys()
+      .filter(key => key === statePath || key.startsWith(`${statePath}.`))
+      .forEach(key => {
+        statePersistenceService.flush(key);
+        statePersistenceService.unregister(key);
+      });
+  }
+
   /**
    * Cleanup method to prevent memory leaks
    */
@@ -216,6 +721,25 @@ export class FilamentReactAdapter {
       clearTimeout(this.scanTimeout);
       this.scanTimeout = null;
     }
+    this.scanRoots.clear();
+
+    if (this.visibilityObserver) {
+      this.visibilityObserver.disconnect();
+      this.visibilityObserver = null;
+    }
+
+    this.offscreenTimers.forEach(timer => clearTimeout(timer));
+    this.offscreenTimers.clear();
+    this.lastData.clear();
+    this.scheduled = new WeakSet();
+    this.persisted.clear();
+    this.released = new WeakSet();
+    this.navigatedStatePaths.clear();
+
+    this.livewireUnhooks.forEach(unhook => unhook());
+    this.livewireUnhooks = [];
+    this.livewireHooked = false;
+    setCommitHookActive(false);
   }
 
   /**
@@ -226,14 +750,29 @@ export class FilamentReactAdapter {
     statePath: string;
     props?: Record<string, any>;
     containerId?: string;
+    registry?: string;
+    wrapperProps?: WrapperProps;
   }): HTMLElement {
-    const { component, statePath, props = {}, containerId = `react-${Date.now()}` } = options;
+    const {
+      component,
+      statePath,
+      props = {},
+      containerId = `react-${Date.now()}`,
+      registry,
+      wrapperProps,
+    } = options;
 
     const container = document.createElement('div');
     container.id = containerId;
     container.dataset.reactComponent = component;
     container.dataset.reactStatePath = statePath;
     container.dataset.reactProps = JSON.stringify(props);
+    if (registry) {
+      container.dataset.reactRegistry = registry;
+    }
+    if (wrapperProps) {
+      container.dataset.reactWrapperProps = JSON.stringify(wrapperProps);
+    }
     container.className = 'react-component-container';
 
     return container;
@@ -243,7 +782,12 @@ export class FilamentReactAdapter {
    * Handle Livewire component updates
    */
   static handleLivewireUpdate(event: CustomEvent): void {
-    const { component, data, statePath } = event.detail;
+    // `patch` is a JSON patch against the current props; `data` replaces them (`mode: 'merge'`
+    // merges them instead)
+    const { component, data, patch, mode = 'replace', statePath } = event.detail;
+
+    // Updates carrying only a state path value are for useEntangle
+    if (!patch && data === undefined) return;
 
     // Find containers for this component and update them
     const containers = document.querySelectorAll(
@@ -253,7 +797,11 @@ export class FilamentReactAdapter {
     containers.forEach(container => {
       const element = container as HTMLElement;
       if (element.id && universalReactRenderer.hasActiveComponent(element.id)) {
-        universalReactRenderer.updateProps(element.id, data);
+        if (patch) {
+          universalReactRenderer.patchProps(element.id, patch);
+        } else {
+          universalReactRenderer.updateProps(element.id, data, { mode });
+        }
       }
     });
   }
@@ -261,6 +809,9 @@ export class FilamentReactAdapter {
 
 // Auto-initialize when this module is loaded
 FilamentReactAdapter.initializeComponents();
+if (typeof window !== 'undefined') {
+  FilamentReactAdapter.setupLivewireHooks();
+}
 
 // Listen for Livewire events
 if (typeof window !== 'undefined') {
@@ -268,11 +819,12 @@ if (typeof window !== 'undefined') {
     FilamentReactAdapter.handleLivewireUpdate(event as CustomEvent);
   });
 
-  // Re-scan after Livewire navigation
+  // Carry React roots through wire:navigate
+  document.addEventListener('livewire:navigating', () => {
+    FilamentReactAdapter.handleNavigating();
+  });
   document.addEventListener('livewire:navigated', () => {
-    setTimeout(() => {
-      FilamentReactAdapter.initializeComponents();
-    }, 100);
+    FilamentReactAdapter.handleNavigated();
   });
 
   // Cleanup on page unload to prevent memory leaks
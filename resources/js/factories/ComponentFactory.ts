@@ -8,14 +8,30 @@ import {
   IComponentDefinition,
   IComponentContext,
   IComponentMiddleware,
+  IComponentFactory,
 } from '../interfaces/IComponentRegistry';
 
-export abstract class BaseComponentFactory {
+export abstract class BaseComponentFactory implements IComponentFactory {
   abstract createComponent(
     definition: IComponentDefinition,
-    props: Record<string, any>
+    props: Record<string, any>,
+    context?: IComponentContext
   ): React.ComponentType<any> | null;
 
+  /**
+   * Optional async creation, used to load a component ahead of rendering
+   */
+  createComponentAsync?(
+    definition: IComponentDefinition,
+    props: Record<string, any>,
+    context?: IComponentContext
+  ): Promise<React.ComponentType<any> | null>;
+
+  /**
+   * Drop cached components (all of them, or a single component by name)
+   */
+  clearCache?(name?: string): void;
+
   protected applyMiddleware(
     component: React.ComponentType<any>,
     props: Record<string, any>,
@@ -37,11 +53,53 @@ export abstract class BaseComponentFactory {
     }, component);
   }
 
-  protected validateComponent(component: any): boolean {
+  /**
+   * Apply the definition's component-level middleware (config.middleware)
+   */
+  protected applyDefinitionMiddleware(
+    component: React.ComponentType<any>,
+    definition: IComponentDefinition,
+    props: Record<string, any>,
+    context?: IComponentContext
+  ): React.ComponentType<any> {
+    const middleware = definition.config?.middleware;
+    if (!context || !middleware || middleware.length === 0) {
+      return component;
+    }
+
+    return this.applyMiddleware(component, props, middleware, context);
+  }
+
+  /**
+   * Wrap a component so it renders with the definition's default props and the given props
+   */
+  protected bindProps(
+    component: React.ComponentType<any>,
+    definition: IComponentDefinition,
+    props: Record<string, any>
+  ): React.ComponentType<any> {
+    const mergedProps = { ...definition.defaultProps, ...props };
+
+    const WrappedComponent: React.ComponentType<any> = componentProps => {
+      return React.createElement(component, {
+        ...mergedProps,
+        ...componentProps,
+      });
+    };
+
+    WrappedComponent.displayName = `Wrapped${definition.name}`;
+
+    return WrappedComponent;
+  }
+
+  /**
+   * Check for something React can render as an element type: function and class components
+   * as well as memo, forwardRef and lazy objects
+   */
+  protected validateComponent(component: unknown): component is React.ComponentType<any> {
     return (
-      typeof component === 'function' &&
-      (component.prototype?.isReactComponent ||
-        (typeof component === 'function' && !component.prototype?.isReactComponent))
+      typeof component === 'function' ||
+      (typeof component === 'object' && component !== null && '$$typeof' in component)
     );
   }
 }
@@ -49,122 +107,266 @@ export abstract class BaseComponentFactory {
 export class SynchronousComponentFactory extends BaseComponentFactory {
   createComponent(
     definition: IComponentDefinition,
-    props: Record<string, any> = {}
+    props: Record<string, any> = {},
+    context?: IComponentContext
   ): React.ComponentType<any> | null {
     if (!definition.component || definition.isAsync) {
       return null;
     }
 
-    const component = definition.component as React.ComponentType<any>;
+    const component = definition.component;
 
     if (!this.validateComponent(component)) {
       console.error(`Invalid component: ${definition.name}`);
       return null;
     }
 
-    // Apply default props
-    const mergedProps = { ...definition.defaultProps, ...props };
-
-    // Create wrapper component with merged props
-    const WrappedComponent: React.ComponentType<any> = componentProps => {
-      return React.createElement(component, {
-        ...mergedProps,
-        ...componentProps,
-      });
-    };
-
-    WrappedComponent.displayName = `Wrapped${definition.name}`;
-
-    return WrappedComponent;
+    return this.bindProps(
+      this.applyDefinitionMiddleware(component, definition, props, context),
+      definition,
+      props
+    );
   }
 }
 
 export class AsynchronousComponentFactory extends BaseComponentFactory {
+  // Loaded lazy components by name - the single source of truth for what has been loaded
   private componentCache: Map<string, React.ComponentType<any>> = new Map();
+  // Loads in flight, so concurrent mounts share a single request
+  private loading: Map<string, Promise<React.ComponentType<any> | null>> = new Map();
 
   async createComponentAsync(
     definition: IComponentDefinition,
-    _props: Record<string, any> = {}
+    _props: Record<string, any> = {},
+    context?: IComponentContext
   ): Promise<React.ComponentType<any> | null> {
     if (!definition.isAsync) {
       return null;
     }
 
     // Check cache first
-    if (definition.config?.cache && this.componentCache.has(definition.name)) {
-      return this.componentCache.get(definition.name)!;
+    const cached = this.componentCache.get(definition.name);
+    if (cached) {
+      return cached;
     }
 
-    try {
-      const componentLoader = definition.component as () => Promise<{
-        default: React.ComponentType<any>;
-      }>;
-      const module = await componentLoader();
-      const component = module.default;
+    const inFlight = this.loading.get(definition.name);
+    if (inFlight) {
+      return inFlight;
+    }
 
-      if (!this.validateComponent(component)) {
-        console.error(`Invalid async component: ${definition.name}`);
-        return null;
+    const load = this.loadWithRetry(definition, context).finally(() => {
+      if (this.loading.get(definition.name) === load) {
+        this.loading.delete(definition.name);
       }
+    });
+    this.loading.set(definition.name, load);
+
+    return load;
+  }
+
+  /**
+   * Run the definition's loader, retrying failed chunk loads with exponential backoff
+   */
+  private async loadWithRetry(
+    definition: IComponentDefinition,
+    context?: IComponentContext
+  ): Promise<React.ComponentType<any> | null> {
+    const retries = definition.config?.retries ?? 2;
+    const retryDelay = definition.config?.retryDelay ?? 300;
+    const componentLoader = definition.component as () => Promise<{
+      default: React.ComponentType<any>;
+    }>;
+    const startTime = Date.now();
+
+    context?.hooks.executeHooks('component:loading', { name: definition.name });
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      try {
+        const module = await componentLoader();
+        const component = module?.default;
+
+        if (!this.validateComponent(component)) {
+          // A module without a component will not fix itself on retry
+          lastError = new Error(`Invalid async component: ${definition.name}`);
+          console.error(`Invalid async component: ${definition.name}`);
+          break;
+        }
 
-      // Cache if enabled
-      if (definition.config?.cache) {
         this.componentCache.set(definition.name, component);
-      }
+        context?.hooks.executeHooks('component:loaded', {
+          name: definition.name,
+          attempts: attempt,
+          loadTime: Date.now() - startTime,
+        });
 
-      return component;
-    } catch (error) {
-      console.error(`Error loading async component ${definition.name}:`, error);
-      return null;
+        return component;
+      } catch (error) {
+        lastError = error;
+        if (attempt <= retries) {
+          await new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** (attempt - 1)));
+        }
+      }
     }
+
+    console.error(`Error loading async component ${definition.name}:`, lastError);
+    context?.hooks.executeHooks('component:load-failed', {
+      name: definition.name,
+      error: lastError,
+    });
+
+    return null;
   }
 
   createComponent(
     definition: IComponentDefinition,
-    props: Record<string, any> = {}
+    props: Record<string, any> = {},
+    context?: IComponentContext
   ): React.ComponentType<any> | null {
     // For sync factory, return lazy component wrapper
     if (!definition.isAsync) {
       return null;
     }
 
-    return React.lazy(async () => {
-      const component = await this.createComponentAsync(definition, props);
+    // Already loaded components render without suspending
+    const cached = this.componentCache.get(definition.name);
+    if (cached) {
+      return this.bindProps(
+        this.applyDefinitionMiddleware(cached, definition, props, context),
+        definition,
+        props
+      );
+    }
+
+    const LazyComponent = React.lazy(async () => {
+      const component = await this.createComponentAsync(definition, props, context);
       return {
-        default: component || (() => React.createElement('div', null, 'Component failed to load')),
+        default: component
+          ? this.applyDefinitionMiddleware(component, definition, props, context)
+          : () => React.createElement('div', null, 'Component failed to load'),
       };
     });
+
+    return this.bindProps(LazyComponent, definition, props);
+  }
+
+  /**
+   * Get a loaded lazy component from the cache
+   */
+  getCachedComponent(name: string): React.ComponentType<any> | undefined {
+    return this.componentCache.get(name);
+  }
+
+  /**
+   * Check whether a lazy component is currently being loaded
+   */
+  isLoading(name: string): boolean {
+    return this.loading.has(name);
   }
 
-  clearCache(): void {
+  clearCache(name?: string): void {
+    if (name) {
+      this.componentCache.delete(name);
+      this.loading.delete(name);
+      return;
+    }
     this.componentCache.clear();
+    this.loading.clear();
   }
 }
 
 export class ComponentFactoryManager {
   private syncFactory = new SynchronousComponentFactory();
   private asyncFactory = new AsynchronousComponentFactory();
+  private factories: Map<string, IComponentFactory> = new Map<string, IComponentFactory>([
+    ['sync', this.syncFactory],
+    ['async', this.asyncFactory],
+  ]);
+
+  /**
+   * Register a factory for definitions of the given kind (e.g. 'web-component' or 'iframe')
+   */
+  registerFactory(kind: string, factory: IComponentFactory): void {
+    if (this.factories.has(kind)) {
+      console.warn(`Component factory for kind "${kind}" already exists and will be replaced`);
+    }
+    this.factories.set(kind, factory);
+  }
+
+  unregisterFactory(kind: string): boolean {
+    if (kind === 'sync' || kind === 'async') {
+      console.warn(`The built-in "${kind}" component factory cannot be removed`);
+      return false;
+    }
+    return this.factories.delete(kind);
+  }
+
+  getFactory(kind: string): IComponentFactory | undefined {
+    return this.factories.get(kind);
+  }
+
+  getKinds(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Resolve the factory kind of a definition, defaulting to the built-in sync/async factories
+   */
+  getKind(definition: IComponentDefinition): string {
+    return definition.kind || (definition.isAsync ? 'async' : 'sync');
+  }
 
   createComponent(
     definition: IComponentDefinition,
-    props: Record<string, any> = {}
+    props: Record<string, any> = {},
+    context?: IComponentContext
   ): React.ComponentType<any> | null {
-    if (definition.isAsync) {
-      return this.asyncFactory.createComponent(definition, props);
-    } else {
-      return this.syncFactory.createComponent(definition, props);
+    const factory = this.getFactory(this.getKind(definition));
+    if (!factory) {
+      console.error(`No component factory registered for kind "${this.getKind(definition)}"`);
+      return null;
     }
+
+    return factory.createComponent(definition, props, context);
   }
 
   async createComponentAsync(
     definition: IComponentDefinition,
-    props: Record<string, any> = {}
+    props: Record<string, any> = {},
+    context?: IComponentContext
   ): Promise<React.ComponentType<any> | null> {
-    if (definition.isAsync) {
-      return this.asyncFactory.createComponentAsync(definition, props);
-    } else {
-      return this.syncFactory.createComponent(definition, props);
+    const factory = this.getFactory(this.getKind(definition));
+    if (!factory) {
+      console.error(`No component factory registered for kind "${this.getKind(definition)}"`);
+      return null;
+    }
+
+    if (factory.createComponentAsync) {
+      return factory.createComponentAsync(definition, props, context);
     }
+    return factory.createComponent(definition, props, context);
+  }
+
+  /**
+   * Check whether a lazy component is currently being loaded by the async factory
+   */
+  isLoading(name: string): boolean {
+    return this.asyncFactory.isLoading(name);
+  }
+
+  /**
+   * Get a loaded lazy component from the async factory's cache
+   */
+  getCachedComponent(name: string): React.ComponentType<any> | undefined {
+    return this.asyncFactory.getCachedComponent(name);
+  }
+
+  /**
+   * Drop cached components from every factory
+   */
+  clearCache(name?: string): void {
+    this.factories.forEach(factory => factory.clearCache?.(name));
   }
 
   clearAsyncCache(): void {
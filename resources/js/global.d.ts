@@ -9,6 +9,25 @@ interface GlobalStateManagerInterface {
   reset(): void;
 }
 
+// A Livewire component's $wire
+interface LivewireWireInterface {
+  get(name: string): unknown;
+  set(name: string, value: unknown, live?: boolean): unknown;
+  $watch?(name: string, callback: (value: unknown) => void): unknown;
+}
+
+// Payloads of the Livewire 3 JS hooks the Filament adapter registers
+interface LivewireHookPayloads {
+  'morph.updating': { el: Node; toEl?: Node; skip?: () => void };
+  'morph.updated': { el: Node };
+  'morph.added': { el: Node };
+  commit: {
+    component: { el: HTMLElement; $wire: LivewireWireInterface };
+    succeed(callback: () => void): void;
+  };
+  request: Record<string, unknown>;
+}
+
 declare global {
   interface Window {
     // Namespaced globals for better organization
@@ -23,6 +42,13 @@ declare global {
     ReactWrapperConfig?: unknown;
     WorkflowCanvas?: unknown;
     workflowDataSync?: (statePath: string, data: any) => void;
+    Livewire?: {
+      find(id: string): LivewireWireInterface | undefined;
+      hook?<K extends keyof LivewireHookPayloads>(
+        name: K,
+        callback: (payload: LivewireHookPayloads[K]) => unknown
+      ): unknown;
+    };
     __REACT_WRAPPER_DEV_TOOLS__?: unknown;
     globalStateManager?: GlobalStateManagerInterface;
     statePersistenceService?: unknown;
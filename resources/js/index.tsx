@@ -1,6 +1,15 @@
 // React Wrapper - Complete system with enhanced features
-import { componentRegistry, registerComponents } from './components/ReactComponentRegistry';
-import { universalReactRenderer } from './components/UniversalReactRenderer';
+import {
+  componentRegistry,
+  registerComponents,
+  getRegistry,
+  createExtension,
+  autoDiscover,
+} from './components/ReactComponentRegistry';
+import { universalReactRenderer, useRenderContainer } from './components/UniversalReactRenderer';
+import { ComponentGallery } from './components/ComponentGallery';
+import { ReactErrorBoundary, DefaultErrorFallback } from './components/ErrorBoundary';
+import { wrapperRegistry } from './components/WrapperRegistry';
 import {
   StateManagerProvider,
   useStateManager,
@@ -8,10 +17,17 @@ import {
   withStateManager,
   globalStateManager,
 } from './components/StateManager';
+import { useEntangle, findLivewireComponent } from './components/LivewireEntangle';
 import { statePersistenceService, usePersistedState } from './services/StatePersistenceService';
 import { devTools } from './services/DevTools';
 import { codeSplittingService } from './services/CodeSplittingService';
 import { componentVersioningService } from './services/ComponentVersioningService';
+import { propValidationService, PropValidationError } from './services/PropValidationService';
+import { DependencyCycleError } from './services/DependencyGraph';
+import { componentCatalogService } from './services/ComponentCatalogService';
+import { registryManifestService } from './services/RegistryManifestService';
+import { applyJsonPatch, JsonPatchError } from './services/JsonPatch';
+import { hotReplaceComponent } from './vite/hmr';
 
 // Enhanced features (MingleJS-inspired)
 import {
@@ -44,9 +60,17 @@ export {
   // Registry
   componentRegistry,
   registerComponents,
+  getRegistry,
+  createExtension,
+  autoDiscover,
 
   // Renderer
   universalReactRenderer,
+  useRenderContainer,
+  ComponentGallery,
+  wrapperRegistry,
+  ReactErrorBoundary,
+  DefaultErrorFallback,
 
   // State Management (original)
   StateManagerProvider,
@@ -55,6 +79,10 @@ export {
   withStateManager,
   globalStateManager,
 
+  // Livewire binding
+  useEntangle,
+  findLivewireComponent,
+
   // Enhanced State Management
   EnhancedStateProvider,
   useEnhancedStateManager,
@@ -70,6 +98,16 @@ export {
   devTools,
   codeSplittingService,
   componentVersioningService,
+  propValidationService,
+  PropValidationError,
+  DependencyCycleError,
+  componentCatalogService,
+  registryManifestService,
+  applyJsonPatch,
+  JsonPatchError,
+
+  // Hot module replacement
+  hotReplaceComponent,
 
   // Simple Registration (MingleJS-inspired)
   Component,
@@ -89,6 +127,22 @@ export {
 
 // Export types
 export * from './types';
+export type { ComponentWrapper, WrapperProps } from './components/WrapperRegistry';
+export type { JsonPatchOperation } from './services/JsonPatch';
+export type {
+  RenderLifecycleEvent,
+  RenderLifecycleEventType,
+  RendererConfig,
+  RendererProvider,
+  RenderContainer,
+} from './components/UniversalReactRenderer';
+export type {
+  EntangleMode,
+  EntangleOptions,
+  EntangleControls,
+  LivewireWire,
+} from './components/LivewireEntangle';
+export type { ReactErrorBoundaryProps } from './components/ErrorBoundary';
 export type { StateManagerConfig };
 
 // Bootstrap function for initialization
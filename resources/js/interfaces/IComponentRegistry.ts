@@ -9,23 +9,68 @@ export interface IComponentDefinition {
   name: string;
   component: React.ComponentType<any> | (() => Promise<{ default: React.ComponentType<any> }>);
   isAsync?: boolean;
+  // Factory used to create the component: 'sync', 'async' or a kind added with registerFactory()
+  kind?: string;
+  // Module or chunk id a lazy component is loaded from (recorded in registry manifests)
+  chunk?: string;
   defaultProps?: Record<string, any>;
   propTypes?: Record<string, any>;
+  propSchema?: IPropSchema;
   config?: IComponentConfig;
   metadata?: IComponentMetadata;
 }
 
 export interface IComponentConfig {
+  // The definition's component is a loader (() => import('./Component')) resolved on first use
   lazy?: boolean;
+  // Retries (with exponential backoff from retryDelay ms) when a lazy loader fails
+  retries?: number;
+  retryDelay?: number;
   cache?: boolean;
   ssr?: boolean;
   preload?: boolean;
-  wrapper?: string | React.ComponentType<any>;
+  // Named wrappers (see wrapperRegistry) or components around the component, outermost first
+  wrapper?:
+    | string
+    | React.ComponentType<{ children?: React.ReactNode }>
+    | Array<string | React.ComponentType<{ children?: React.ReactNode }>>;
+  // Replace the renderer's error and loading fallbacks for this component
+  errorFallback?: React.ComponentType<IErrorFallbackProps>;
+  loadingFallback?: React.ReactNode;
+  // Opt out of the renderer's app-wide providers (all of them, or the named ones); such
+  // components never render through the shared portal root, which renders every provider
+  skipProviders?: boolean | string[];
   middleware?: Array<IComponentMiddleware>;
   dependencies?: string[];
   version?: string;
 }
 
+export interface IErrorFallbackProps {
+  error: Error;
+  componentName?: string;
+  // Render the component again; undefined once the retry limit is reached
+  retry?: () => void;
+  // A retry is waiting for its backoff delay
+  retrying: boolean;
+  attempts: number;
+  // Hide internal details (error messages, registered components) from end users
+  production: boolean;
+}
+
+/**
+ * Error passed to the renderer's error reporter
+ */
+export interface IErrorReport {
+  error: Error;
+  componentName?: string;
+  containerId?: string;
+  componentStack?: string;
+  props?: Record<string, any>;
+  timestamp: number;
+}
+
+export type IErrorReporter = (report: IErrorReport) => void | Promise<void>;
+
 export interface IComponentMetadata {
   description?: string;
   category?: string;
@@ -39,12 +84,76 @@ export interface IComponentMetadata {
   }>;
 }
 
+export type IPropSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'date'
+  | 'null'
+  | 'function'
+  | 'any';
+
+/**
+ * JSON-Schema-like description of a component's props
+ */
+export interface IPropSchema {
+  type?: IPropSchemaType | IPropSchemaType[];
+  description?: string;
+  properties?: Record<string, IPropSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: IPropSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  default?: unknown;
+}
+
+export interface IPropValidationError {
+  path: string;
+  keyword: string;
+  message: string;
+  expected?: unknown;
+  received?: unknown;
+}
+
+export interface IPropValidationResult<T = Record<string, unknown>> {
+  valid: boolean;
+  errors: IPropValidationError[];
+  value: T;
+}
+
 export type IComponentMiddleware = (
   component: React.ComponentType<any>,
   props: Record<string, any>,
   context: IComponentContext
 ) => React.ComponentType<any> | Promise<React.ComponentType<any>>;
 
+/**
+ * Creates renderable components for definitions of one kind
+ */
+export interface IComponentFactory {
+  createComponent(
+    definition: IComponentDefinition,
+    props: Record<string, any>,
+    context?: IComponentContext
+  ): React.ComponentType<any> | null;
+  createComponentAsync?(
+    definition: IComponentDefinition,
+    props: Record<string, any>,
+    context?: IComponentContext
+  ): Promise<React.ComponentType<any> | null>;
+  clearCache?(name?: string): void;
+}
+
 export interface IComponentContext {
   registry: IComponentRegistry;
   hooks: IHookManager;
@@ -58,11 +167,192 @@ export interface IHookManager {
   executeHooks(event: string, data?: any): any;
 }
 
+export type IExtensionHook =
+  | ((data?: any) => any)
+  | {
+      callback: (data?: any) => any;
+      priority?: number;
+    };
+
+/**
+ * Registry extension with a managed lifecycle
+ * Mirrors the PHP ReactExtensionInterface / ExtensionManager contract
+ */
+export interface IRegistryExtension {
+  name: string;
+  version?: string;
+  dependsOn?: string[];
+  conflictsWith?: string[];
+  hooks?: Record<string, IExtensionHook>;
+  middleware?: IComponentMiddleware[];
+  install?(registry: IComponentRegistry): void;
+  uninstall?(registry: IComponentRegistry): void;
+}
+
+/**
+ * Optional `export const meta = {...}` of a discovered component module
+ */
+export interface IComponentModuleMeta extends IComponentMetadata {
+  name?: string;
+  defaultProps?: Record<string, any>;
+  propSchema?: IPropSchema;
+  config?: IComponentConfig;
+}
+
+/**
+ * A module matched by import.meta.glob: a loader (default) or the module itself ({ eager: true })
+ */
+export type IDiscoveredModule = (() => Promise<Record<string, unknown>>) | Record<string, unknown>;
+
+export interface IAutoDiscoverOptions {
+  // Derive the component name from the module path (defaults to the file name, or the folder for index files)
+  name?: (path: string) => string;
+  prefix?: string;
+  // Paths to skip, e.g. stories and tests
+  exclude?: RegExp | ((path: string) => boolean);
+  // Export holding the component (defaults to the default export)
+  exportName?: string;
+  // Eagerly imported meta exports: import.meta.glob('...', { import: 'meta', eager: true })
+  meta?: Record<string, IComponentModuleMeta | undefined>;
+  // Config applied to every discovered definition
+  config?: IComponentConfig;
+  // Replace components that are already registered instead of skipping them
+  overwrite?: boolean;
+}
+
+/**
+ * Catalog query over registered components and their metadata
+ */
+export interface IComponentQuery {
+  category?: string | string[];
+  // all: every tag must match (AND); any: at least one must match (OR); none: excluded tags
+  tags?: { all?: string[]; any?: string[]; none?: string[] };
+  // Full-text search over name, description, docs, category, tags and examples
+  search?: string;
+  name?: RegExp;
+  sortBy?: 'name' | 'category' | 'relevance';
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  perPage?: number;
+}
+
+export interface IComponentQueryResult {
+  items: IComponentDefinition[];
+  total: number;
+  page: number;
+  perPage: number;
+  pages: number;
+}
+
+export interface IComponentCatalogEntry {
+  name: string;
+  category?: string;
+  tags: string[];
+  description?: string;
+  docs?: string;
+  author?: string;
+  version?: string;
+  lazy: boolean;
+  dependencies: string[];
+  examples: Array<{ name: string; props: Record<string, any>; description?: string }>;
+}
+
+export interface IComponentCatalog {
+  scope: string;
+  generatedAt: string;
+  total: number;
+  categories: Record<string, number>;
+  tags: Record<string, number>;
+  components: IComponentCatalogEntry[];
+}
+
+/**
+ * Serializable description of one registered component
+ */
+export interface IComponentManifestEntry {
+  name: string;
+  version?: string;
+  lazy: boolean;
+  chunk?: string;
+  kind?: string;
+  config: Omit<IComponentConfig, 'middleware' | 'wrapper'> & { wrapper?: string | string[] };
+  defaultProps?: Record<string, any>;
+  propSchema?: IPropSchema;
+  metadata?: IComponentMetadata;
+}
+
+/**
+ * Serializable snapshot of a registry, used to transfer and compare registries (e.g. PHP and JS)
+ */
+export interface IComponentManifest {
+  scope: string;
+  generatedAt: string;
+  components: Record<string, IComponentManifestEntry>;
+}
+
+export interface IManifestDiff {
+  // Registered on the left-hand side only
+  onlyLeft: string[];
+  // Registered on the right-hand side only
+  onlyRight: string[];
+  versionMismatches: Array<{ name: string; left?: string; right?: string }>;
+}
+
+export interface IFromManifestOptions {
+  // Build the loader for a lazy stub (defaults to the code splitting service by component name)
+  loader?: (entry: IComponentManifestEntry) => () => Promise<{ default: React.ComponentType<any> }>;
+  // Replace components that are already registered instead of skipping them
+  overwrite?: boolean;
+}
+
+export interface IComponentAliasOptions {
+  // Warn (and report to DevTools) whenever the alias is used
+  deprecated?: boolean;
+  // Shown with the deprecation warning, e.g. which name to use instead
+  message?: string;
+}
+
+/**
+ * Alternative name resolving to a registered component (e.g. the old name of a renamed component)
+ */
+export interface IComponentAlias extends IComponentAliasOptions {
+  alias: string;
+  target: string;
+}
+
+export interface IDependencyGraphSnapshot {
+  nodes: Array<{
+    name: string;
+    status: 'registered' | 'pending' | 'deferred' | 'missing';
+    dependencies: string[];
+    dependents: string[];
+  }>;
+  order: string[];
+}
+
 export interface IComponentRegistry {
-  register(definition: IComponentDefinition): void;
+  register(definition: IComponentDefinition): Promise<IComponentDefinition>;
+  replace(
+    name: string,
+    component: IComponentDefinition['component']
+  ): Promise<IComponentDefinition>;
   get(name: string): IComponentDefinition | undefined;
+  alias(alias: string, target: string, options?: IComponentAliasOptions): void;
+  unalias(alias: string): boolean;
+  resolveAlias(name: string, containerId?: string): string;
+  getAliases(): IComponentAlias[];
+  isPending(name: string): boolean;
+  whenReady(name: string): Promise<IComponentDefinition | undefined>;
   create(name: string, props?: Record<string, any>): React.ComponentType<any> | null;
+  resolveComponent(name: string): React.ComponentType<any> | null;
+  load(name: string): Promise<React.ComponentType<any> | null>;
+  isLoaded(name: string): boolean;
+  registerFactory(kind: string, factory: IComponentFactory): void;
+  getFactory(kind: string): IComponentFactory | undefined;
+  validateProps(name: string, props?: Record<string, unknown>): IPropValidationResult;
   has(name: string): boolean;
+  createChild(scope: string): IComponentRegistry;
+  dispose(): void;
   unregister(name: string): boolean;
   clear(): void;
   getComponentNames(): string[];
@@ -71,7 +361,22 @@ export interface IComponentRegistry {
     categoryCounts: Record<string, number>;
     tagCounts: Record<string, number>;
   };
-  mount(componentName: string, containerId: string, props?: Record<string, any>): void;
+  query(query?: IComponentQuery): IComponentQueryResult;
+  toManifest(): IComponentManifest;
+  fromManifest(manifest: unknown, options?: IFromManifestOptions): Promise<IComponentDefinition[]>;
+  diffManifest(manifest: unknown): IManifestDiff;
+  exportCatalog(): IComponentCatalog;
+  autoDiscover(
+    modules: Record<string, IDiscoveredModule>,
+    options?: IAutoDiscoverOptions
+  ): Promise<IComponentDefinition[]>;
+  registerExtension(extension: IRegistryExtension): void;
+  unregisterExtension(name: string): boolean;
+  getExtension(name: string): IRegistryExtension | undefined;
+  getDependencyGraph(): IDependencyGraphSnapshot;
+  getDependents(name: string, transitive?: boolean): string[];
+  mount(componentName: string, containerId: string, props?: Record<string, any>): Promise<void>;
+  renderExamples(name: string | null, containerId: string): void;
   unmount(containerId: string): void;
 }
 
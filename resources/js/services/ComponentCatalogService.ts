@@ -0,0 +1,177 @@
+/**
+ * Component Catalog Service - queries registered components by their metadata
+ * Backs searchable component listings such as an in-admin component gallery
+ */
+
+import {
+  IComponentDefinition,
+  IComponentQuery,
+  IComponentQueryResult,
+  IComponentCatalog,
+  IComponentCatalogEntry,
+} from '../interfaces/IComponentRegistry';
+
+// Relevance weight of a search term matching each field
+const SEARCH_WEIGHTS = {
+  name: 5,
+  tags: 3,
+  category: 2,
+  description: 2,
+  docs: 1,
+  examples: 1,
+};
+
+export class ComponentCatalogService {
+  /**
+   * Filter, search, sort and paginate component definitions
+   */
+  query(
+    definitions: Iterable<IComponentDefinition>,
+    query: IComponentQuery = {}
+  ): IComponentQueryResult {
+    const terms = this.tokenize(query.search || '');
+    const categories =
+      query.category === undefined
+        ? undefined
+        : Array.isArray(query.category)
+          ? query.category
+          : [query.category];
+
+    const matches: Array<{ definition: IComponentDefinition; score: number }> = [];
+
+    for (const definition of definitions) {
+      const metadata = definition.metadata || {};
+      const tags = metadata.tags || [];
+
+      if (categories && !categories.includes(metadata.category || '')) continue;
+      if (query.name && !query.name.test(definition.name)) continue;
+      if (query.tags?.all && !query.tags.all.every(tag => tags.includes(tag))) continue;
+      if (query.tags?.any && !query.tags.any.some(tag => tags.includes(tag))) continue;
+      if (query.tags?.none && query.tags.none.some(tag => tags.includes(tag))) continue;
+
+      const score = terms.length > 0 ? this.score(definition, terms) : 0;
+      if (terms.length > 0 && score === 0) continue;
+
+      matches.push({ definition, score });
+    }
+
+    const sortBy = query.sortBy || (terms.length > 0 ? 'relevance' : 'name');
+    const direction = query.sortOrder === 'desc' ? -1 : 1;
+    matches.sort((a, b) => {
+      let result = 0;
+      if (sortBy === 'relevance') {
+        // Higher scores first in ascending order, so 'desc' reverses to least relevant first
+        result = b.score - a.score;
+      } else if (sortBy === 'category') {
+        result = (a.definition.metadata?.category || '').localeCompare(
+          b.definition.metadata?.category || ''
+        );
+      }
+      return (result || a.definition.name.localeCompare(b.definition.name)) * direction;
+    });
+
+    const total = matches.length;
+    const perPage = query.perPage && query.perPage > 0 ? query.perPage : Math.max(total, 1);
+    const pages = Math.max(Math.ceil(total / perPage), 1);
+    const page = Math.min(Math.max(query.page || 1, 1), pages);
+    const start = (page - 1) * perPage;
+
+    return {
+      items: matches.slice(start, start + perPage).map(({ definition }) => definition),
+      total,
+      page,
+      perPage,
+      pages,
+    };
+  }
+
+  /**
+   * Export a JSON-serialisable catalog of component definitions
+   */
+  exportCatalog(
+    definitions: Iterable<IComponentDefinition>,
+    scope: string = 'root'
+  ): IComponentCatalog {
+    const components = Array.from(definitions, definition => this.toEntry(definition)).sort(
+      (a, b) => a.name.localeCompare(b.name)
+    );
+    const categories: Record<string, number> = {};
+    const tags: Record<string, number> = {};
+
+    components.forEach(component => {
+      const category = component.category || 'uncategorized';
+      categories[category] = (categories[category] || 0) + 1;
+      component.tags.forEach(tag => {
+        tags[tag] = (tags[tag] || 0) + 1;
+      });
+    });
+
+    return {
+      scope,
+      generatedAt: new Date().toISOString(),
+      total: components.length,
+      categories,
+      tags,
+      components,
+    };
+  }
+
+  private toEntry(definition: IComponentDefinition): IComponentCatalogEntry {
+    const metadata = definition.metadata || {};
+
+    return {
+      name: definition.name,
+      category: metadata.category,
+      tags: [...(metadata.tags || [])],
+      description: metadata.description,
+      docs: metadata.docs,
+      author: metadata.author,
+      version: definition.config?.version,
+      lazy: !!definition.isAsync,
+      dependencies: [...(definition.config?.dependencies || [])],
+      examples: (metadata.examples || []).map(example => ({ ...example })),
+    };
+  }
+
+  /**
+   * Score how well a definition matches every search term (0 when a term is missing)
+   */
+  private score(definition: IComponentDefinition, terms: string[]): number {
+    const metadata = definition.metadata || {};
+    const fields: Record<keyof typeof SEARCH_WEIGHTS, string> = {
+      name: definition.name,
+      tags: (metadata.tags || []).join(' '),
+      category: metadata.category || '',
+      description: metadata.description || '',
+      docs: metadata.docs || '',
+      examples: (metadata.examples || [])
+        .map(example => `${example.name} ${example.description || ''}`)
+        .join(' '),
+    };
+
+    let total = 0;
+    for (const term of terms) {
+      let termScore = 0;
+      for (const [field, text] of Object.entries(fields)) {
+        if (text.toLowerCase().includes(term)) {
+          termScore += SEARCH_WEIGHTS[field as keyof typeof SEARCH_WEIGHTS];
+        }
+      }
+      if (termScore === 0) {
+        return 0;
+      }
+      total += termScore;
+    }
+
+    return total;
+  }
+
+  private tokenize(search: string): string[] {
+    return search.toLowerCase().split(/\s+/).filter(Boolean);
+  }
+}
+
+// Global singleton instance
+export const componentCatalogService = new ComponentCatalogService();
+
+export default componentCatalogService;
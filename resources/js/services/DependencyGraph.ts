@@ -0,0 +1,164 @@
+/**
+ * Dependency Graph - tracks component dependencies declared in IComponentConfig.dependencies
+ * Provides topological ordering and cycle detection for the component registry
+ */
+
+/**
+ * Error raised when component dependencies form a cycle
+ */
+export class DependencyCycleError extends Error {
+  readonly cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`Circular component dependency detected: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+    this.cycle = cycle;
+  }
+}
+
+export class DependencyGraph {
+  // node -> the nodes it depends on
+  private edges: Map<string, Set<string>> = new Map();
+
+  /**
+   * Add (or replace) a node and its direct dependencies
+   */
+  addNode(name: string, dependencies: string[] = []): void {
+    this.edges.set(name, new Set(dependencies));
+  }
+
+  /**
+   * Remove a node's own dependency edges
+   */
+  removeNode(name: string): void {
+    this.edges.delete(name);
+  }
+
+  hasNode(name: string): boolean {
+    return this.edges.has(name);
+  }
+
+  /**
+   * Get every node, including dependencies that have not been added themselves
+   */
+  getNodes(): string[] {
+    const nodes = new Set<string>(this.edges.keys());
+    this.edges.forEach(dependencies => dependencies.forEach(dep => nodes.add(dep)));
+    return Array.from(nodes);
+  }
+
+  getDependencies(name: string, transitive: boolean = false): string[] {
+    if (!transitive) {
+      return Array.from(this.edges.get(name) || []);
+    }
+
+    return this.topologicalSort([name]).filter(node => node !== name);
+  }
+
+  getDependents(name: string, transitive: boolean = false): string[] {
+    const dependents = new Set<string>();
+    const queue = [name];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      this.edges.forEach((dependencies, node) => {
+        if (dependencies.has(current) && !dependents.has(node) && node !== name) {
+          dependents.add(node);
+          if (transitive) {
+            queue.push(node);
+          }
+        }
+      });
+    }
+
+    return Array.from(dependents);
+  }
+
+  /**
+   * Find a dependency cycle reachable from the given node (or anywhere in the graph)
+   * Returns the cycle as a path that starts and ends with the same node
+   */
+  findCycle(start?: string): string[] | null {
+    const visited = new Set<string>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+
+    const visit = (node: string): string[] | null => {
+      if (onStack.has(node)) {
+        return [...stack.slice(stack.indexOf(node)), node];
+      }
+      if (visited.has(node)) {
+        return null;
+      }
+
+      visited.add(node);
+      stack.push(node);
+      onStack.add(node);
+
+      for (const dependency of this.edges.get(node) || []) {
+        const cycle = visit(dependency);
+        if (cycle) {
+          return cycle;
+        }
+      }
+
+      stack.pop();
+      onStack.delete(node);
+      return null;
+    };
+
+    const roots = start ? [start] : Array.from(this.edges.keys());
+    for (const root of roots) {
+      const cycle = visit(root);
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Order nodes so that every dependency comes before its dependents
+   * When roots are given, only they and their transitive dependencies are included
+   */
+  topologicalSort(roots?: string[]): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (node: string): void => {
+      if (visited.has(node)) {
+        return;
+      }
+      if (visiting.includes(node)) {
+        throw new DependencyCycleError([...visiting.slice(visiting.indexOf(node)), node]);
+      }
+
+      visiting.push(node);
+      for (const dependency of this.edges.get(node) || []) {
+        visit(dependency);
+      }
+      visiting.pop();
+
+      visited.add(node);
+      order.push(node);
+    };
+
+    (roots || this.getNodes()).forEach(visit);
+
+    return order;
+  }
+
+  clear(): void {
+    this.edges.clear();
+  }
+
+  toJSON(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    this.edges.forEach((dependencies, node) => {
+      result[node] = Array.from(dependencies);
+    });
+    return result;
+  }
+}
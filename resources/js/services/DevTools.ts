@@ -29,11 +29,39 @@ interface StateChange {
   source: string;
 }
 
+interface DeprecatedAliasUsage {
+  alias: string;
+  target: string;
+  message?: string;
+  containerId?: string;
+  container?: HTMLElement;
+  timestamp: number;
+}
+
+interface HydrationMismatch {
+  containerId: string;
+  componentName?: string;
+  message: string;
+  componentStack?: string;
+  container?: HTMLElement;
+  timestamp: number;
+}
+
+interface MountedRoot {
+  containerId: string;
+  componentName?: string;
+  container: HTMLElement;
+  mountedAt: number;
+}
+
 class DevTools {
   private _isEnabled: boolean = false;
   private components: Map<string, ComponentInfo> = new Map();
   private performanceMetrics: PerformanceMetrics[] = [];
   private stateHistory: StateChange[] = [];
+  private deprecatedAliasUsage: DeprecatedAliasUsage[] = [];
+  private hydrationMismatches: HydrationMismatch[] = [];
+  private mountedRoots: Map<string, MountedRoot> = new Map();
   private maxHistorySize: number = 1000;
   private observers: Set<(event: DevToolsEvent) => void> = new Set();
 
@@ -203,6 +231,57 @@ class DevTools {
     this.warn(`Component warning in ${name}:`, warning);
   }
 
+  trackDeprecatedAlias(usage: Omit<DeprecatedAliasUsage, 'container' | 'timestamp'>): void {
+    if (!this._isEnabled) return;
+
+    const record: DeprecatedAliasUsage = {
+      ...usage,
+      container:
+        (usage.containerId && typeof document !== 'undefined'
+          ? document.getElementById(usage.containerId)
+          : null) || undefined,
+      timestamp: Date.now(),
+    };
+
+    this.deprecatedAliasUsage.push(record);
+
+    // Limit history size
+    if (this.deprecatedAliasUsage.length > this.maxHistorySize) {
+      this.deprecatedAliasUsage.shift();
+    }
+
+    this.notifyObservers({
+      type: 'component:deprecated-alias',
+      data: record,
+    });
+  }
+
+  trackHydrationMismatch(mismatch: Omit<HydrationMismatch, 'container' | 'timestamp'>): void {
+    if (!this._isEnabled) return;
+
+    const record: HydrationMismatch = {
+      ...mismatch,
+      container:
+        (typeof document !== 'undefined' ? document.getElementById(mismatch.containerId) : null) ||
+        undefined,
+      timestamp: Date.now(),
+    };
+
+    this.hydrationMismatches.push(record);
+
+    // Limit history size
+    if (this.hydrationMismatches.length > this.maxHistorySize) {
+      this.hydrationMismatches.shift();
+    }
+
+    this.notifyObservers({
+      type: 'component:hydration-mismatch',
+      data: record,
+    });
+
+    this.warn(`Hydration mismatch in #${mismatch.containerId}:`, mismatch.message);
+  }
+
   // State tracking methods
   trackStateChange(path: string, oldValue: any, newValue: any, source: string = 'unknown'): void {
     if (!this._isEnabled) return;
@@ -303,6 +382,45 @@ class DevTools {
     return [...this.stateHistory];
   }
 
+  getDeprecatedAliasUsage(alias?: string): DeprecatedAliasUsage[] {
+    if (!this.isEnabled()) return [];
+
+    if (alias) {
+      return this.deprecatedAliasUsage.filter(usage => usage.alias === alias);
+    }
+
+    return [...this.deprecatedAliasUsage];
+  }
+
+  trackRootMounted(root: Omit<MountedRoot, 'mountedAt'>): void {
+    if (!this._isEnabled) return;
+
+    this.mountedRoots.set(root.containerId, { ...root, mountedAt: Date.now() });
+  }
+
+  trackRootUnmounted(containerId: string): void {
+    this.mountedRoots.delete(containerId);
+  }
+
+  /**
+   * Mounted roots whose container has been removed from the document without being unmounted
+   */
+  getLeakReport(): MountedRoot[] {
+    if (!this.isEnabled()) return [];
+
+    return Array.from(this.mountedRoots.values()).filter(root => !root.container.isConnected);
+  }
+
+  getHydrationMismatches(containerId?: string): HydrationMismatch[] {
+    if (!this.isEnabled()) return [];
+
+    if (containerId) {
+      return this.hydrationMismatches.filter(mismatch => mismatch.containerId === containerId);
+    }
+
+    return [...this.hydrationMismatches];
+  }
+
   // Debug panel methods
   showDebugPanel(): void {
     if (!this._isEnabled) return;
@@ -382,6 +500,52 @@ class DevTools {
           .join('')}
       </div>
       
+      <div style="margin-top: 20px;">
+        <h3>Deprecated Aliases (${this.deprecatedAliasUsage.length})</h3>
+        ${this.deprecatedAliasUsage
+          .slice(-10)
+          .reverse()
+          .map(
+            usage => `
+          <div style="margin-bottom: 8px; padding: 6px; background: #fde2e1; border-radius: 4px; font-size: 11px;">
+            <strong>${usage.alias}</strong> → ${usage.target}<br>
+            Container: ${usage.containerId ? `#${usage.containerId}` : 'none'}
+          </div>
+        `
+          )
+          .join('')}
+      </div>
+
+      <div style="margin-top: 20px;">
+        <h3>Hydration Mismatches (${this.hydrationMismatches.length})</h3>
+        ${this.hydrationMismatches
+          .slice(-10)
+          .reverse()
+          .map(
+            mismatch => `
+          <div style="margin-bottom: 8px; padding: 6px; background: #fde2e1; border-radius: 4px; font-size: 11px;">
+            <strong>#${mismatch.containerId}</strong> ${mismatch.componentName ?? ''}<br>
+            ${mismatch.message}
+          </div>
+        `
+          )
+          .join('')}
+      </div>
+
+      <div style="margin-top: 20px;">
+        <h3>Detached Roots (${this.getLeakReport().length})</h3>
+        ${this.getLeakReport()
+          .map(
+            root => `
+          <div style="margin-bottom: 8px; padding: 6px; background: #fde2e1; border-radius: 4px; font-size: 11px;">
+            <strong>#${root.containerId}</strong> ${root.componentName ?? ''}<br>
+            Mounted: ${new Date(root.mountedAt).toLocaleTimeString()}
+          </div>
+        `
+          )
+          .join('')}
+      </div>
+
       <div style="margin-top: 20px;">
         <h3>Performance</h3>
         <div style="padding: 8px; background: #d1ecf1; border-radius: 4px;">
@@ -430,6 +594,36 @@ class DevTools {
     console.groupEnd();
   }
 
+  logDeprecatedAliasInfo(): void {
+    if (!this._isEnabled) return;
+
+    console.group('%c[React Wrapper] Deprecated Alias Usage', 'color: #D97706; font-weight: bold;');
+    this.deprecatedAliasUsage.forEach(usage => {
+      console.log(`${usage.alias} -> ${usage.target}:`, usage.container ?? usage.containerId);
+    });
+    console.groupEnd();
+  }
+
+  logHydrationInfo(): void {
+    if (!this._isEnabled) return;
+
+    console.group('%c[React Wrapper] Hydration Mismatches', 'color: #DC2626; font-weight: bold;');
+    this.hydrationMismatches.forEach(mismatch => {
+      console.log(`#${mismatch.containerId}:`, mismatch.message, mismatch.container);
+    });
+    console.groupEnd();
+  }
+
+  logLeakReport(): void {
+    if (!this._isEnabled) return;
+
+    console.group('%c[React Wrapper] Detached Roots', 'color: #DC2626; font-weight: bold;');
+    this.getLeakReport().forEach(root => {
+      console.log(`#${root.containerId} (${root.componentName ?? 'element'}):`, root.container);
+    });
+    console.groupEnd();
+  }
+
   logPerformanceInfo(): void {
     if (!this._isEnabled) return;
 
@@ -497,6 +691,9 @@ class DevTools {
     this.components.clear();
     this.performanceMetrics.length = 0;
     this.stateHistory.length = 0;
+    this.deprecatedAliasUsage.length = 0;
+    this.hydrationMismatches.length = 0;
+    this.mountedRoots.clear();
   }
 
   // Memory usage tracking (if available)
@@ -518,7 +715,15 @@ interface DevToolsEvent {
 export const devTools = new DevTools();
 
 // Export types for external use
-export type { ComponentInfo, PerformanceMetrics, StateChange, DevToolsEvent };
+export type {
+  ComponentInfo,
+  PerformanceMetrics,
+  StateChange,
+  DeprecatedAliasUsage,
+  HydrationMismatch,
+  MountedRoot,
+  DevToolsEvent,
+};
 
 // Default export
 export default devTools;
@@ -1,3 +1,5 @@
+import type { IErrorReport } from '../interfaces/IComponentRegistry';
+
 // Laravel-style method calls inspired by MingleJS $wire
 export interface FilamentBridgeConfig {
   baseUrl?: string;
@@ -130,6 +132,21 @@ export class FilamentBridge {
     return this.call('refresh');
   }
 
+  // Error reporting (e.g. to the Laravel log), usable as the renderer's error reporter:
+  // universalReactRenderer.configure({ reporter: report => filamentBridge.reportError(report) })
+  reportError(report: IErrorReport): Promise<any> {
+    return this.call('reportError', {
+      message: report.error.message,
+      name: report.error.name,
+      stack: report.error.stack,
+      componentName: report.componentName,
+      containerId: report.containerId,
+      componentStack: report.componentStack,
+      url: typeof window !== 'undefined' ? window.location.href : undefined,
+      timestamp: report.timestamp,
+    });
+  }
+
   // Private helper methods
   private getCSRFToken(): string {
     const token = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content');
@@ -0,0 +1,215 @@
+/**
+ * JSON Patch (RFC 6902) - applies minimal prop diffs sent by Livewire
+ * Patches never mutate their input: every container along a changed path is copied,
+ * so untouched branches (and their handlers) keep their identity.
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Error raised when a patch operation cannot be applied
+ */
+export class JsonPatchError extends Error {
+  readonly operation: JsonPatchOperation;
+
+  constructor(message: string, operation: JsonPatchOperation) {
+    super(`${message} (${operation.op} ${operation.path})`);
+    this.name = 'JsonPatchError';
+    this.operation = operation;
+  }
+}
+
+const isContainer = (value: unknown): value is Container => !!value && typeof value === 'object';
+
+/**
+ * Split a JSON pointer ("/items/0/name") into unescaped reference tokens
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}"`);
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Apply a JSON patch, returning the patched copy of the document
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  return operations.reduce<unknown>(
+    (current, operation) => applyOperation(current, operation),
+    document
+  ) as T;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const path = parseJsonPointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return setValue(document, path, operation.value, operation, true);
+    case 'replace':
+      return setValue(document, path, operation.value, operation, false);
+    case 'remove':
+      return removeValue(document, path, operation);
+    case 'copy':
+      return setValue(
+        document,
+        path,
+        getValue(document, parseJsonPointer(operation.from), operation),
+        operation,
+        true
+      );
+    case 'move': {
+      const from = parseJsonPointer(operation.from);
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new JsonPatchError('Cannot move a value into one of its children', operation);
+      }
+      const value = getValue(document, from, operation);
+      return setValue(removeValue(document, from, operation), path, value, operation, true);
+    }
+    case 'test':
+      if (!isEqual(getValue(document, path, operation), operation.value)) {
+        throw new JsonPatchError('Test failed', operation);
+      }
+      return document;
+    default:
+      throw new JsonPatchError('Unknown operation', operation as unknown as JsonPatchOperation);
+  }
+}
+
+function getValue(document: unknown, path: string[], operation: JsonPatchOperation): unknown {
+  return path.reduce((node, token) => {
+    if (!isContainer(node) || !hasChild(node, token)) {
+      throw new JsonPatchError(`Path not found at "${token}"`, operation);
+    }
+    return Array.isArray(node) ? node[Number(token)] : node[token];
+  }, document);
+}
+
+function setValue(
+  document: unknown,
+  path: string[],
+  value: unknown,
+  operation: JsonPatchOperation,
+  insert: boolean
+): unknown {
+  if (path.length === 0) return value;
+
+  return updateParent(document, path, operation, (parent, key) => {
+    if (Array.isArray(parent)) {
+      const index = key === '-' && insert ? parent.length : toIndex(key, operation);
+      if (insert ? index > parent.length : index >= parent.length) {
+        throw new JsonPatchError(`Array index ${key} out of bounds`, operation);
+      }
+      parent.splice(index, insert ? 0 : 1, value);
+      return;
+    }
+
+    if (!insert && !hasChild(parent, key)) {
+      throw new JsonPatchError(`Path not found at "${key}"`, operation);
+    }
+    parent[key] = value;
+  });
+}
+
+function removeValue(document: unknown, path: string[], operation: JsonPatchOperation): unknown {
+  if (path.length === 0) {
+    throw new JsonPatchError('Cannot remove the whole document', operation);
+  }
+
+  return updateParent(document, path, operation, (parent, key) => {
+    if (!hasChild(parent, key)) {
+      throw new JsonPatchError(`Path not found at "${key}"`, operation);
+    }
+    if (Array.isArray(parent)) {
+      parent.splice(toIndex(key, operation), 1);
+    } else {
+      delete parent[key];
+    }
+  });
+}
+
+/**
+ * Copy every container down to the parent of the target and let update() change the copy
+ */
+function updateParent(
+  document: unknown,
+  path: string[],
+  operation: JsonPatchOperation,
+  update: (parent: Container, key: string) => void
+): unknown {
+  if (!isContainer(document)) {
+    throw new JsonPatchError('Cannot patch a non-object document', operation);
+  }
+
+  const root = copy(document);
+  let parent: Container = root;
+
+  for (const token of path.slice(0, -1)) {
+    const child = hasChild(parent, token)
+      ? Array.isArray(parent)
+        ? parent[Number(token)]
+        : parent[token]
+      : undefined;
+    if (!isContainer(child)) {
+      throw new JsonPatchError(`Path not found at "${token}"`, operation);
+    }
+
+    const childCopy = copy(child);
+    if (Array.isArray(parent)) {
+      parent[Number(token)] = childCopy;
+    } else {
+      parent[token] = childCopy;
+    }
+    parent = childCopy;
+  }
+
+  update(parent, path[path.length - 1]!);
+  return root;
+}
+
+function copy(container: Container): Container {
+  return Array.isArray(container) ? [...container] : { ...container };
+}
+
+function hasChild(container: Container, token: string): boolean {
+  if (Array.isArray(container)) {
+    return /^(0|[1-9]\d*)$/.test(token) && Number(token) < container.length;
+  }
+  return Object.prototype.hasOwnProperty.call(container, token);
+}
+
+function toIndex(token: string, operation: JsonPatchOperation): number {
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new JsonPatchError(`Invalid array index "${token}"`, operation);
+  }
+  return Number(token);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      key =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
@@ -0,0 +1,398 @@
+/**
+ * Prop Validation Service - validates and coerces component props against a prop schema
+ * Props coming from Blade (`data-react-props`) are JSON-serialised by PHP, so common
+ * scalar types are coerced back before validation.
+ */
+
+import {
+  IComponentDefinition,
+  IPropSchema,
+  IPropSchemaType,
+  IPropValidationError,
+  IPropValidationResult,
+} from '../interfaces/IComponentRegistry';
+
+export interface PropValidationOptions {
+  coerce?: boolean;
+  applyDefaults?: boolean;
+}
+
+/**
+ * Error raised when a component receives props that do not match its schema
+ */
+export class PropValidationError extends Error {
+  readonly componentName: string;
+  readonly errors: IPropValidationError[];
+
+  constructor(componentName: string, errors: IPropValidationError[]) {
+    const summary = errors.map(error => `${error.path || 'props'}: ${error.message}`).join('; ');
+    super(`Invalid props for component "${componentName}": ${summary}`);
+    this.name = 'PropValidationError';
+    this.componentName = componentName;
+    this.errors = errors;
+  }
+}
+
+const TRUE_STRINGS = ['true', '1', 'yes', 'on'];
+const FALSE_STRINGS = ['false', '0', 'no', 'off', ''];
+
+export class PropValidationService {
+  /**
+   * Resolve the prop schema for a definition.
+   * `propSchema` takes precedence; `propTypes` is read as a map of property schemas
+   * where a string value is shorthand for `{ type }`.
+   */
+  resolveSchema(definition: IComponentDefinition): IPropSchema | undefined {
+    if (definition.propSchema) {
+      return definition.propSchema;
+    }
+
+    if (!definition.propTypes || Object.keys(definition.propTypes).length === 0) {
+      return undefined;
+    }
+
+    const properties: Record<string, IPropSchema> = {};
+    for (const [key, value] of Object.entries(definition.propTypes)) {
+      if (typeof value === 'string' || Array.isArray(value)) {
+        properties[key] = { type: value as IPropSchemaType | IPropSchemaType[] };
+      } else if (value && typeof value === 'object') {
+        properties[key] = value as IPropSchema;
+      }
+    }
+
+    return { type: 'object', properties };
+  }
+
+  /**
+   * Validate a value against a schema, returning the (coerced) value and any errors
+   */
+  validate<T = Record<string, unknown>>(
+    schema: IPropSchema,
+    value: unknown,
+    options: PropValidationOptions = {}
+  ): IPropValidationResult<T> {
+    const errors: IPropValidationError[] = [];
+    const resolvedOptions = { coerce: true, applyDefaults: true, ...options };
+    const result = this.validateNode(schema, value, '', errors, resolvedOptions);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      value: result as T,
+    };
+  }
+
+  private validateNode(
+    schema: IPropSchema,
+    input: unknown,
+    path: string,
+    errors: IPropValidationError[],
+    options: Required<PropValidationOptions>
+  ): unknown {
+    let value = input;
+    const types = this.getTypes(schema);
+
+    if (types.length > 0 && !types.includes('any')) {
+      if (options.coerce && !types.some(type => this.matchesType(type, value))) {
+        value = this.coerce(types, value);
+      }
+
+      const matchedType = types.find(type => this.matchesType(type, value));
+      if (!matchedType) {
+        errors.push({
+          path,
+          keyword: 'type',
+          message: `Expected ${types.join(' | ')} but received ${this.describeType(value)}`,
+          expected: types,
+          received: value,
+        });
+        return value;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(candidate => candidate === value)) {
+      errors.push({
+        path,
+        keyword: 'enum',
+        message: `Expected one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`,
+        expected: schema.enum,
+        received: value,
+      });
+    }
+
+    if (typeof value === 'number') {
+      this.validateNumber(schema, value, path, errors);
+    } else if (typeof value === 'string') {
+      this.validateString(schema, value, path, errors);
+    } else if (Array.isArray(value)) {
+      return this.validateArray(schema, value, path, errors, options);
+    } else if (this.isPlainObject(value)) {
+      return this.validateObject(schema, value, path, errors, options);
+    }
+
+    return value;
+  }
+
+  private validateNumber(
+    schema: IPropSchema,
+    value: number,
+    path: string,
+    errors: IPropValidationError[]
+  ): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({
+        path,
+        keyword: 'minimum',
+        message: `Must be greater than or equal to ${schema.minimum}`,
+        expected: schema.minimum,
+        received: value,
+      });
+    }
+
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({
+        path,
+        keyword: 'maximum',
+        message: `Must be less than or equal to ${schema.maximum}`,
+        expected: schema.maximum,
+        received: value,
+      });
+    }
+  }
+
+  private validateString(
+    schema: IPropSchema,
+    value: string,
+    path: string,
+    errors: IPropValidationError[]
+  ): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({
+        path,
+        keyword: 'minLength',
+        message: `Must be at least ${schema.minLength} characters`,
+        expected: schema.minLength,
+        received: value,
+      });
+    }
+
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({
+        path,
+        keyword: 'maxLength',
+        message: `Must be at most ${schema.maxLength} characters`,
+        expected: schema.maxLength,
+        received: value,
+      });
+    }
+
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({
+        path,
+        keyword: 'pattern',
+        message: `Must match pattern ${schema.pattern}`,
+        expected: schema.pattern,
+        received: value,
+      });
+    }
+  }
+
+  private validateArray(
+    schema: IPropSchema,
+    value: unknown[],
+    path: string,
+    errors: IPropValidationError[],
+    options: Required<PropValidationOptions>
+  ): unknown[] {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        path,
+        keyword: 'minItems',
+        message: `Must contain at least ${schema.minItems} items`,
+        expected: schema.minItems,
+        received: value.length,
+      });
+    }
+
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({
+        path,
+        keyword: 'maxItems',
+        message: `Must contain at most ${schema.maxItems} items`,
+        expected: schema.maxItems,
+        received: value.length,
+      });
+    }
+
+    if (!schema.items) {
+      return value;
+    }
+
+    const itemSchema = schema.items;
+    return value.map((item, index) =>
+      this.validateNode(itemSchema, item, `${path}[${index}]`, errors, options)
+    );
+  }
+
+  private validateObject(
+    schema: IPropSchema,
+    value: Record<string, unknown>,
+    path: string,
+    errors: IPropValidationError[],
+    options: Required<PropValidationOptions>
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...value };
+    const properties = schema.properties || {};
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      const propertyPath = path ? `${path}.${key}` : key;
+
+      if (result[key] === undefined) {
+        if (options.applyDefaults && propertySchema.default !== undefined) {
+          result[key] = propertySchema.default;
+        }
+        continue;
+      }
+
+      result[key] = this.validateNode(propertySchema, result[key], propertyPath, errors, options);
+    }
+
+    for (const key of schema.required || []) {
+      if (result[key] === undefined) {
+        errors.push({
+          path: path ? `${path}.${key}` : key,
+          keyword: 'required',
+          message: 'Is required',
+        });
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(result)) {
+        if (!(key in properties)) {
+          errors.push({
+            path: path ? `${path}.${key}` : key,
+            keyword: 'additionalProperties',
+            message: 'Is not an allowed property',
+            received: result[key],
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Coerce Blade-serialised values into the first schema type they can represent
+   */
+  private coerce(types: IPropSchemaType[], value: unknown): unknown {
+    for (const type of types) {
+      const coerced = this.coerceTo(type, value);
+      if (coerced !== undefined && this.matchesType(type, coerced)) {
+        return coerced;
+      }
+    }
+    return value;
+  }
+
+  private coerceTo(type: IPropSchemaType, value: unknown): unknown {
+    switch (type) {
+      case 'number':
+      case 'integer': {
+        if (typeof value === 'string' && value.trim() !== '') {
+          const parsed = Number(value);
+          return Number.isNaN(parsed) ? undefined : parsed;
+        }
+        if (typeof value === 'boolean') {
+          return value ? 1 : 0;
+        }
+        return undefined;
+      }
+      case 'boolean': {
+        if (typeof value === 'string') {
+          const normalized = value.trim().toLowerCase();
+          if (TRUE_STRINGS.includes(normalized)) return true;
+          if (FALSE_STRINGS.includes(normalized)) return false;
+        }
+        if (value === 1 || value === 0) {
+          return value === 1;
+        }
+        return undefined;
+      }
+      case 'string':
+        return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+      case 'date': {
+        if (typeof value === 'string' || typeof value === 'number') {
+          const date = new Date(value);
+          return Number.isNaN(date.getTime()) ? undefined : date;
+        }
+        return undefined;
+      }
+      case 'null':
+        return value === '' || value === 'null' ? null : undefined;
+      case 'object':
+        // PHP's json_encode serialises an empty associative array as []
+        return Array.isArray(value) && value.length === 0 ? {} : undefined;
+      case 'array':
+        return this.isPlainObject(value) && Object.keys(value).length === 0 ? [] : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private matchesType(type: IPropSchemaType, value: unknown): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'object':
+        return this.isPlainObject(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'date':
+        return value instanceof Date && !Number.isNaN(value.getTime());
+      case 'null':
+        return value === null;
+      case 'function':
+        return typeof value === 'function';
+      case 'any':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private getTypes(schema: IPropSchema): IPropSchemaType[] {
+    if (!schema.type) {
+      return [];
+    }
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+
+  private describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'date';
+    return typeof value;
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Date)
+    );
+  }
+}
+
+// Global singleton instance
+export const propValidationService = new PropValidationService();
+
+export default propValidationService;
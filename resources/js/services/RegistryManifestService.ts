@@ -0,0 +1,165 @@
+/**
+ * Registry Manifest Service - serializes registries into manifests and compares them
+ * Accepts manifests produced by toManifest() as well as the PHP registry's `all()` output
+ */
+
+import {
+  IComponentDefinition,
+  IComponentManifest,
+  IComponentManifestEntry,
+  IComponentMetadata,
+  IManifestDiff,
+  IPropSchema,
+} from '../interfaces/IComponentRegistry';
+
+// Config keys that survive serialization (middleware and component wrappers are code)
+const SERIALIZABLE_CONFIG_KEYS = [
+  'lazy',
+  'cache',
+  'ssr',
+  'preload',
+  'dependencies',
+  'version',
+  'retries',
+  'retryDelay',
+  'skipProviders',
+] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+export class RegistryManifestService {
+  /**
+   * Build a manifest from component definitions
+   */
+  create(definitions: Iterable<IComponentDefinition>, scope: string = 'root'): IComponentManifest {
+    const components: Record<string, IComponentManifestEntry> = {};
+
+    for (const definition of definitions) {
+      components[definition.name] = this.toEntry(definition);
+    }
+
+    return {
+      scope,
+      generatedAt: new Date().toISOString(),
+      components,
+    };
+  }
+
+  /**
+   * Normalize a manifest from toManifest(), a list of entries or the PHP registry's `all()`
+   * (`{ name: { component: 'chunk', config: {...} } }`)
+   */
+  normalize(input: unknown): IComponentManifest {
+    const source = isRecord(input) && 'components' in input ? input.components : input;
+    const components: Record<string, IComponentManifestEntry> = {};
+
+    const entries: Array<[unknown, unknown]> = Array.isArray(source)
+      ? source.map((entry, index) => [isRecord(entry) ? entry.name : String(index), entry])
+      : isRecord(source)
+        ? Object.entries(source)
+        : [];
+
+    for (const [name, raw] of entries) {
+      if (!isRecord(raw) || typeof name !== 'string') {
+        console.warn(`Skipping invalid manifest entry for component ${String(name)}`);
+        continue;
+      }
+      const entry = this.normalizeEntry(name, raw);
+      components[entry.name] = entry;
+    }
+
+    return {
+      scope: isRecord(input) && typeof input.scope === 'string' ? input.scope : 'root',
+      generatedAt:
+        isRecord(input) && typeof input.generatedAt === 'string'
+          ? input.generatedAt
+          : new Date().toISOString(),
+      components,
+    };
+  }
+
+  /**
+   * Report components registered on one side only, and components whose versions differ
+   */
+  diff(left: IComponentManifest, right: IComponentManifest): IManifestDiff {
+    const leftNames = Object.keys(left.components);
+    const rightNames = Object.keys(right.components);
+
+    return {
+      onlyLeft: leftNames.filter(name => !(name in right.components)).sort(),
+      onlyRight: rightNames.filter(name => !(name in left.components)).sort(),
+      versionMismatches: leftNames
+        .filter(name => name in right.components)
+        .filter(name => left.components[name]!.version !== right.components[name]!.version)
+        .sort()
+        .map(name => ({
+          name,
+          left: left.components[name]!.version,
+          right: right.components[name]!.version,
+        })),
+    };
+  }
+
+  private toEntry(definition: IComponentDefinition): IComponentManifestEntry {
+    const config = this.serializeConfig((definition.config || {}) as Record<string, unknown>);
+
+    return {
+      name: definition.name,
+      version: definition.config?.version,
+      lazy: !!definition.isAsync,
+      chunk: definition.chunk,
+      kind: definition.kind,
+      config,
+      defaultProps: definition.defaultProps,
+      propSchema: definition.propSchema,
+      metadata: definition.metadata,
+    };
+  }
+
+  private normalizeEntry(name: string, raw: Record<string, unknown>): IComponentManifestEntry {
+    const config = isRecord(raw.config) ? raw.config : {};
+    const defaultProps = raw.defaultProps ?? config.defaultProps;
+
+    return {
+      name: optionalString(raw.name) ?? name,
+      version: optionalString(raw.version ?? config.version),
+      lazy: !!(raw.lazy ?? config.lazy),
+      // The PHP registry stores the component's module as a string
+      chunk: optionalString(raw.chunk) ?? optionalString(raw.component),
+      kind: optionalString(raw.kind),
+      config: this.serializeConfig(config),
+      defaultProps: isRecord(defaultProps) ? defaultProps : undefined,
+      propSchema: isRecord(raw.propSchema) ? (raw.propSchema as IPropSchema) : undefined,
+      metadata: isRecord(raw.metadata) ? (raw.metadata as IComponentMetadata) : undefined,
+    };
+  }
+
+  private serializeConfig(config: Record<string, unknown>): IComponentManifestEntry['config'] {
+    const serialized: Record<string, unknown> = {};
+
+    SERIALIZABLE_CONFIG_KEYS.forEach(key => {
+      const value = config[key];
+      if (value !== undefined) {
+        serialized[key] = Array.isArray(value) ? [...value] : value;
+      }
+    });
+    // Only named wrappers can be serialized
+    const wrappers = (Array.isArray(config.wrapper) ? config.wrapper : [config.wrapper]).filter(
+      (wrapper): wrapper is string => typeof wrapper === 'string'
+    );
+    if (wrappers.length > 0) {
+      serialized.wrapper = Array.isArray(config.wrapper) ? wrappers : wrappers[0];
+    }
+
+    return serialized as IComponentManifestEntry['config'];
+  }
+}
+
+// Global singleton instance
+export const registryManifestService = new RegistryManifestService();
+
+export default registryManifestService;
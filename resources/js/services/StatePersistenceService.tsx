@@ -83,19 +83,21 @@ export class StatePersistenceService {
   }
 
   /**
-   * Clear all timeouts and perform immediate sync
+   * Clear all timeouts (or the one of a single key) and perform immediate sync
    */
-  flush(): void {
+  flush(onlyKey?: string): void {
     // Execute all pending saves immediately
     this.debounceTimeouts.forEach((timeout, key) => {
+      if (onlyKey !== undefined && key !== onlyKey) return;
+
       clearTimeout(timeout);
       const config = this.configs.get(key);
       const value = this.lastValues.get(key);
       if (config && value !== undefined) {
         this.performSave(key, value, config);
       }
+      this.debounceTimeouts.delete(key);
     });
-    this.debounceTimeouts.clear();
   }
 
   /**
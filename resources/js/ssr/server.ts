@@ -0,0 +1,87 @@
+/**
+ * Server-side rendering entry - renders registered components to HTML in Node.
+ * Markup placed in a container marked with data-react-ssr="true" is hydrated by the renderer.
+ */
+
+import { renderToString } from 'react-dom/server';
+import { getRegistry } from '../components/ReactComponentRegistry';
+import { universalReactRenderer } from '../components/UniversalReactRenderer';
+import type { IComponentRegistry } from '../interfaces/IComponentRegistry';
+import type { WrapperProps } from '../components/WrapperRegistry';
+
+export interface SsrRequest {
+  component: string;
+  props?: Record<string, unknown>;
+  // Props for the component's named wrappers, keyed by wrapper name
+  wrapperProps?: WrapperProps;
+}
+
+/**
+ * Render a registered component to HTML. Only definitions with `config.ssr` enabled are
+ * rendered; lazy components are loaded first so the markup does not hold their loading fallback.
+ */
+export async function renderComponentToString(
+  component: string,
+  props: Record<string, unknown> = {},
+  options: { registry?: IComponentRegistry | string; wrapperProps?: WrapperProps } = {}
+): Promise<string> {
+  const registry =
+    typeof options.registry === 'object' ? options.registry : getRegistry(options.registry);
+  const name = registry.resolveAlias(component);
+  const definition = registry.get(name);
+
+  if (!definition) {
+    throw new Error(`Component "${component}" not found in registry`);
+  }
+  if (!definition.config?.ssr) {
+    throw new Error(`Component "${name}" is not enabled for server-side rendering`);
+  }
+
+  await registry.load(name);
+
+  return renderToString(
+    universalReactRenderer.createElement({
+      component: name,
+      props,
+      registry,
+      wrapperProps: options.wrapperProps,
+    })
+  );
+}
+
+/**
+ * Read an SsrRequest as JSON from stdin and write the rendered HTML to stdout, so the Laravel
+ * side can shell out to a Node script that registers the app's components and calls this.
+ * Failures are written to stderr with exit code 1.
+ *
+ * @example
+ * // resources/js/ssr.ts
+ * import './components';
+ * import { runSsr } from '@hadyfayed/filament-react-wrapper/ssr';
+ * runSsr();
+ */
+export async function runSsr(
+  input: AsyncIterable<{ toString(): string }> = process.stdin,
+  output: { write(chunk: string): unknown } = process.stdout
+): Promise<void> {
+  try {
+    let json = '';
+    for await (const chunk of input) {
+      json += chunk.toString();
+    }
+
+    const request = JSON.parse(json) as SsrRequest;
+    if (!request || typeof request.component !== 'string') {
+      throw new Error('SSR request must name a component');
+    }
+
+    output.write(
+      await renderComponentToString(request.component, request.props, {
+        wrapperProps: request.wrapperProps,
+      })
+    );
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  }
+}
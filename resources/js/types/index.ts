@@ -5,7 +5,34 @@
 import React from 'react';
 
 // Re-export key interfaces
-export type { IComponentDefinition, IComponentRegistry } from '../interfaces/IComponentRegistry';
+export type {
+  IComponentDefinition,
+  IComponentRegistry,
+  IPropSchema,
+  IPropSchemaType,
+  IPropValidationError,
+  IPropValidationResult,
+  IDependencyGraphSnapshot,
+  IRegistryExtension,
+  IExtensionHook,
+  IComponentFactory,
+  IComponentModuleMeta,
+  IDiscoveredModule,
+  IAutoDiscoverOptions,
+  IComponentQuery,
+  IComponentQueryResult,
+  IComponentCatalog,
+  IComponentCatalogEntry,
+  IComponentManifest,
+  IComponentManifestEntry,
+  IManifestDiff,
+  IFromManifestOptions,
+  IComponentAlias,
+  IComponentAliasOptions,
+  IErrorFallbackProps,
+  IErrorReport,
+  IErrorReporter,
+} from '../interfaces/IComponentRegistry';
 export type {
   IStateManagerState,
   IStateManager,
@@ -13,6 +40,9 @@ export type {
 } from '../interfaces/IStateManager';
 
 // Import interfaces
+import type { DeprecatedAliasUsage, HydrationMismatch, MountedRoot } from '../services/DevTools';
+import type { RenderLifecycleEvent, RendererConfig } from '../components/UniversalReactRenderer';
+import type { JsonPatchOperation } from '../services/JsonPatch';
 import type { IComponentRegistry } from '../interfaces/IComponentRegistry';
 import type { IStateManager, IStatePersistence } from '../interfaces/IStateManager';
 
@@ -37,7 +67,33 @@ export interface IUniversalRenderer {
     containerId: string;
     onDataChange?: (data: unknown) => void;
     onError?: (error: Error) => void;
-  }): void;
+    registry?: IComponentRegistry | string;
+    wrapperProps?: Record<string, Record<string, unknown>>;
+    portal?: boolean;
+  }): Promise<void>;
+  updateProps(
+    containerId: string,
+    props: Record<string, unknown>,
+    options?: { mode?: 'merge' | 'replace' }
+  ): Promise<void>;
+  patchProps(containerId: string, patch: JsonPatchOperation[]): Promise<void>;
+  createElement(options: {
+    component: string;
+    props?: Record<string, unknown>;
+    registry?: IComponentRegistry | string;
+    wrapperProps?: Record<string, Record<string, unknown>>;
+  }): React.ReactElement;
+  refresh(componentName: string): string[];
+  renderElement(containerId: string, element: React.ReactElement): Promise<void>;
+  subscribe(listener: (event: RenderLifecycleEvent) => void): () => void;
+  addProvider<P extends object>(
+    Provider: React.ComponentType<P>,
+    props?: Omit<P, 'children'>,
+    options?: { order?: number; name?: string }
+  ): () => void;
+  removeProvider<P extends object>(provider: React.ComponentType<P> | string): boolean;
+  configure(config: Partial<RendererConfig>): void;
+  getConfig(): RendererConfig;
   unmount(containerId: string): void;
   isRendered(containerId: string): boolean;
 }
@@ -47,6 +103,9 @@ export interface IDevTools {
   disable(): void;
   isEnabled(): boolean;
   log(message: string, data?: unknown): void;
+  getDeprecatedAliasUsage(alias?: string): DeprecatedAliasUsage[];
+  getHydrationMismatches(containerId?: string): HydrationMismatch[];
+  getLeakReport(): MountedRoot[];
 }
 
 export interface ICodeSplittingService {
@@ -0,0 +1,54 @@
+/**
+ * Hot Module Replacement - swaps registered components when Vite hot-reloads their module
+ */
+
+import { componentRegistry } from '../components/ReactComponentRegistry';
+import type { IComponentRegistry } from '../interfaces/IComponentRegistry';
+
+// The subset of Vite's `import.meta.hot` used here
+export interface HotContext {
+  invalidate?(message?: string): void;
+}
+
+export interface HotReplaceOptions {
+  // Export holding the component (defaults to the default export)
+  exportName?: string;
+  // Registry the component is registered in (defaults to the global registry)
+  registry?: IComponentRegistry;
+  // Hot context of the module, to hand updates the registry cannot apply back to Vite
+  hot?: HotContext;
+}
+
+/**
+ * Replace the registered component with the export of a hot-updated module.
+ * Vite only treats modules containing a literal `import.meta.hot.accept(` as self-accepting,
+ * so the accept call stays in the module and hands the new module to this function.
+ * Modules of components that are not registered under the name are invalidated, so the update
+ * propagates to their importers as usual.
+ *
+ * @example
+ * if (import.meta.hot) {
+ *   import.meta.hot.accept(mod => hotReplaceComponent('UserCard', mod, { hot: import.meta.hot }));
+ * }
+ */
+export function hotReplaceComponent(
+  name: string,
+  module: Record<string, unknown> | undefined,
+  { exportName = 'default', registry = componentRegistry, hot }: HotReplaceOptions = {}
+): void {
+  if (!registry.has(name)) {
+    hot?.invalidate?.(`${name} is not a registered component`);
+    return;
+  }
+
+  const component = module?.[exportName];
+  if (!component || (typeof component !== 'function' && typeof component !== 'object')) {
+    // Without a component to swap in, fall back to a full reload
+    hot?.invalidate?.(`Export "${exportName}" of ${name} is not a React component`);
+    return;
+  }
+
+  registry.replace(name, component as Parameters<IComponentRegistry['replace']>[1]).catch(error => {
+    console.error(`Failed to hot replace component ${name}:`, error);
+  });
+}
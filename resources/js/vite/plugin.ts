@@ -0,0 +1,64 @@
+/**
+ * Vite plugin that makes registered React components hot-replaceable during development
+ */
+
+import type { Plugin } from 'vite';
+
+export interface ReactWrapperHmrOptions {
+  // Component modules to make hot-replaceable. Only match modules whose default export is a
+  // registered component: the others are invalidated on every update.
+  include: RegExp;
+  // Registered component name for a module id (defaults to the file name)
+  componentName?: (id: string) => string;
+  // Module the runtime helper is imported from
+  runtime?: string;
+}
+
+const defaultComponentName = (id: string): string =>
+  id
+    .replace(/[?#].*$/, '')
+    .split('/')
+    .pop()!
+    .replace(/\.[^.]+$/, '');
+
+/**
+ * Append an `import.meta.hot.accept()` handler to component modules that calls
+ * componentRegistry.replace(). The accept call is emitted literally: Vite detects self-accepting
+ * modules by searching their source for it.
+ *
+ * @example
+ * // vite.config.js
+ * plugins: [react(), reactWrapperHmr({ include: /resources\/js\/components\/.*\.tsx$/ })]
+ */
+export function reactWrapperHmr({
+  include,
+  componentName = defaultComponentName,
+  runtime = '@hadyfayed/filament-react-wrapper',
+}: ReactWrapperHmrOptions): Plugin {
+  return {
+    name: 'filament-react-wrapper:hmr',
+    apply: 'serve',
+    enforce: 'post',
+    transform(code, id) {
+      if (id.includes('/node_modules/') || !include.test(id.replace(/[?#].*$/, ''))) {
+        return null;
+      }
+      if (!/export\s+default\b/.test(code)) {
+        return null;
+      }
+
+      const name = JSON.stringify(componentName(id));
+      return {
+        code: `${code}
+import { hotReplaceComponent as __reactWrapperHotReplace } from ${JSON.stringify(runtime)};
+if (import.meta.hot) {
+  import.meta.hot.accept(mod => __reactWrapperHotReplace(${name}, mod, { hot: import.meta.hot }));
+}
+`,
+        map: null,
+      };
+    },
+  };
+}
+
+export default reactWrapperHmr;
@@ -23,6 +23,7 @@ class ReactDirective
         $this->registerReactComponentDirective();
         $this->registerReactPropsDirective();
         $this->registerReactConfigDirective();
+        $this->registerReactWrapperPropsDirective();
     }
 
     protected function registerReactDirective(): void
@@ -63,6 +64,13 @@ class ReactDirective
         });
     }
 
+    protected function registerReactWrapperPropsDirective(): void
+    {
+        Blade::directive('reactWrapperProps', function ($expression) {
+            return "<?php echo 'data-react-wrapper-props=\"' . htmlspecialchars(json_encode({$expression}), ENT_QUOTES, 'UTF-8') . '\"'; ?>";
+        });
+    }
+
     protected function parseDirectiveArguments(string $expression): array
     {
         // Remove outer parentheses if present
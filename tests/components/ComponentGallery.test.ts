@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+
+const Badge = ({ label }: { label: string }) => React.createElement('span', null, label);
+const Broken = () => {
+  throw new Error('Broken example');
+};
+
+describe('ComponentGallery', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    document.body.innerHTML = '<div id="gallery"></div>';
+    await componentRegistry.register({
+      name: 'Badge',
+      component: Badge,
+      metadata: {
+        description: 'Status badge',
+        examples: [
+          { name: 'Success', props: { label: 'Done' } },
+          { name: 'Pending', props: { label: 'Waiting' } },
+        ],
+      },
+    });
+  });
+
+  it('should render every example of a component', async () => {
+    await act(async () => componentRegistry.renderExamples('Badge', 'gallery'));
+
+    const container = document.getElementById('gallery')!;
+    expect(container.querySelectorAll('[data-gallery-example]')).toHaveLength(2);
+    expect(container.textContent).toContain('Done');
+    expect(container.textContent).toContain('Waiting');
+
+    act(() => universalReactRenderer.unmount('gallery'));
+  });
+
+  it('should isolate failing examples in their own error boundary', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await componentRegistry.register({ name: 'Broken', component: Broken });
+
+    await act(async () => componentRegistry.renderExamples(null, 'gallery'));
+
+    const container = document.getElementById('gallery')!;
+    expect(container.textContent).toContain('Broken example');
+    expect(container.textContent).toContain('Done');
+
+    act(() => universalReactRenderer.unmount('gallery'));
+  });
+
+  it('should re-render an example with edited props', async () => {
+    await act(async () => componentRegistry.renderExamples('Badge', 'gallery'));
+
+    const editor = document.querySelector('[aria-label="Badge Success props"]')!;
+    await act(async () => {
+      fireEvent.change(editor, { target: { value: '{"label":"Edited"}' } });
+    });
+
+    expect(document.getElementById('gallery')?.textContent).toContain('Edited');
+
+    await act(async () => {
+      fireEvent.change(editor, { target: { value: '{"label":' } });
+    });
+
+    expect(document.getElementById('gallery')?.textContent).toContain('Edited');
+    expect(document.getElementById('gallery')?.textContent).toContain('JSON');
+
+    act(() => universalReactRenderer.unmount('gallery'));
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { devTools } from '../../resources/js/services/DevTools';
+
+const DataTable = ({ rows }: { rows?: number }) => React.createElement('table', null, `${rows}`);
+
+describe('ComponentRegistry - Aliases', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    devTools.clear();
+    await componentRegistry.register({
+      name: 'DataTable',
+      component: DataTable,
+      defaultProps: { rows: 10 },
+    });
+  });
+
+  it('should resolve aliases in get(), has() and create()', () => {
+    const used = vi.fn();
+    componentRegistry.on('component:alias-used', used);
+    componentRegistry.alias('Grid', 'DataTable');
+    componentRegistry.alias('Table', 'Grid');
+
+    expect(componentRegistry.has('Table')).toBe(true);
+    expect(componentRegistry.get('Table')?.name).toBe('DataTable');
+    expect(componentRegistry.create('Grid')).not.toBeNull();
+    expect(used).toHaveBeenCalledWith(
+      expect.objectContaining({ alias: 'Table', name: 'DataTable', deprecated: false })
+    );
+    expect(componentRegistry.getComponentNames()).toEqual(['DataTable']);
+
+    componentRegistry.off('component:alias-used', used);
+  });
+
+  it('should refuse aliases that shadow components or form cycles', () => {
+    componentRegistry.alias('Grid', 'DataTable');
+
+    expect(() => componentRegistry.alias('DataTable', 'Grid')).toThrow(/is registered/);
+    expect(() => componentRegistry.alias('Old', 'Older')).not.toThrow();
+    expect(() => componentRegistry.alias('Older', 'Old')).toThrow(/cycle/);
+  });
+
+  it('should report deprecated aliases with the container they were rendered in', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    componentRegistry.alias('UserTable', 'DataTable', {
+      deprecated: true,
+      message: 'Renamed in 2.0.',
+    });
+    document.body.innerHTML = '<div id="legacy-1"></div><div id="legacy-2"></div>';
+
+    await act(async () => {
+      universalReactRenderer.render({ component: 'UserTable', containerId: 'legacy-1' });
+      universalReactRenderer.render({ component: 'UserTable', containerId: 'legacy-2' });
+    });
+
+    expect(document.getElementById('legacy-1')?.textContent).toBe('10');
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain('Renamed in 2.0.');
+
+    const usage = devTools.getDeprecatedAliasUsage('UserTable');
+    expect(usage.map(record => record.containerId)).toEqual(['legacy-1', 'legacy-2']);
+    expect(usage[0]?.container).toBe(document.getElementById('legacy-1'));
+
+    act(() => {
+      universalReactRenderer.unmount('legacy-1');
+      universalReactRenderer.unmount('legacy-2');
+    });
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { ReactComponentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { DependencyCycleError } from '../../resources/js/services/DependencyGraph';
+import { codeSplittingService } from '../../resources/js/services/CodeSplittingService';
+
+const TestComponent = () => React.createElement('div', null, 'Test');
+
+describe('ComponentRegistry - Dependencies', () => {
+  let registry: ReactComponentRegistry;
+
+  beforeEach(() => {
+    registry = new ReactComponentRegistry();
+  });
+
+  it('should defer registration until dependencies are registered', async () => {
+    const registration = registry.register({
+      name: 'Form',
+      component: TestComponent,
+      config: { dependencies: ['Input', 'Button'] },
+    });
+
+    expect(registry.has('Form')).toBe(false);
+    expect(registry.isPending('Form')).toBe(true);
+
+    registry.register({ name: 'Input', component: TestComponent });
+    expect(registry.has('Form')).toBe(false);
+
+    registry.register({ name: 'Button', component: TestComponent });
+
+    await expect(registration).resolves.toMatchObject({ name: 'Form' });
+    expect(registry.has('Form')).toBe(true);
+  });
+
+  it('should reject registrations that introduce a cycle', async () => {
+    registry.register({ name: 'A', component: TestComponent, config: { dependencies: ['B'] } });
+
+    let registration: Promise<unknown> | undefined;
+    expect(() => {
+      registration = registry.register({
+        name: 'B',
+        component: TestComponent,
+        config: { dependencies: ['A'] },
+      });
+    }).not.toThrow();
+
+    await expect(registration).rejects.toThrow(DependencyCycleError);
+    await expect(registration).rejects.toThrow(
+      'Circular component dependency detected: B -> A -> B'
+    );
+    expect(registry.getDependencyGraph().nodes.map(node => node.name)).toEqual(['A', 'B']);
+  });
+
+  it('should expose the dependency graph in topological order', () => {
+    registry.register({ name: 'Base', component: TestComponent });
+    registry.register({
+      name: 'Card',
+      component: TestComponent,
+      config: { dependencies: ['Base'] },
+    });
+    registry.register({
+      name: 'Dashboard',
+      component: TestComponent,
+      config: { dependencies: ['Card', 'Chart'] },
+    });
+
+    const graph = registry.getDependencyGraph();
+
+    expect(graph.order.indexOf('Base')).toBeLessThan(graph.order.indexOf('Card'));
+    expect(graph.order.indexOf('Card')).toBeLessThan(graph.order.indexOf('Dashboard'));
+    expect(graph.nodes.find(node => node.name === 'Chart')?.status).toBe('missing');
+    expect(graph.nodes.find(node => node.name === 'Dashboard')?.status).toBe('deferred');
+    expect(registry.getDependents('Base')).toEqual(['Card']);
+    expect(registry.getDependents('Base', true)).toEqual(['Card', 'Dashboard']);
+  });
+
+  it('should lazily load missing dependencies before mounting', async () => {
+    const load = vi.spyOn(codeSplittingService, 'loadComponent').mockResolvedValue(TestComponent);
+    registry.register({
+      name: 'Report',
+      component: TestComponent,
+      config: { dependencies: ['Chart'] },
+    });
+
+    const definition = await registry.resolveDependencies('Report');
+
+    expect(load).toHaveBeenCalledWith('Chart');
+    expect(registry.has('Chart')).toBe(true);
+    expect(definition?.name).toBe('Report');
+  });
+
+  it('should report dependencies that cannot be registered through mount', async () => {
+    vi.spyOn(codeSplittingService, 'loadComponent').mockResolvedValue(TestComponent);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    registry.register({
+      name: 'Report',
+      component: TestComponent,
+      config: { dependencies: ['Chart'] },
+    });
+    const cycle = new DependencyCycleError(['Chart', 'Report', 'Chart']);
+    const register = vi.spyOn(registry, 'register').mockRejectedValue(cycle);
+
+    await expect(registry.resolveDependencies('Report')).rejects.toBe(cycle);
+    await registry.mount('Report', 'report');
+
+    expect(error).toHaveBeenCalledWith('Failed to mount component Report:', cycle);
+    register.mockRestore();
+    error.mockRestore();
+  });
+});
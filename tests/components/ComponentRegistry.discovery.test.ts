@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { ReactComponentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+
+const UserCard = () => React.createElement('div', null, 'user');
+const Toolbar = () => React.createElement('div', null, 'toolbar');
+
+describe('ComponentRegistry - Auto Discovery', () => {
+  let registry: ReactComponentRegistry;
+
+  beforeEach(() => {
+    registry = new ReactComponentRegistry();
+  });
+
+  it('should register lazy glob modules by file name', async () => {
+    const loader = vi.fn(async () => ({ default: UserCard }));
+
+    await registry.autoDiscover(
+      {
+        './components/UserCard.tsx': loader,
+        './components/Toolbar/index.tsx': async () => ({ default: Toolbar }),
+        './components/UserCard.stories.tsx': async () => ({}),
+      },
+      {
+        exclude: /\.stories\./,
+        meta: {
+          './components/UserCard.tsx': {
+            category: 'users',
+            tags: ['card'],
+            config: { retries: 0 },
+          },
+        },
+      }
+    );
+
+    expect(registry.getComponentNames()).toEqual(['UserCard', 'Toolbar']);
+    expect(loader).not.toHaveBeenCalled();
+    expect(registry.get('UserCard')).toMatchObject({
+      isAsync: true,
+      metadata: { category: 'users', tags: ['card'] },
+      config: { lazy: true, retries: 0 },
+    });
+    await expect(registry.load('UserCard')).resolves.toBe(UserCard);
+  });
+
+  it('should read meta exports from eager modules', async () => {
+    await registry.autoDiscover(
+      {
+        '/resources/js/components/UserCard.tsx': {
+          default: UserCard,
+          meta: { name: 'Users.Card', description: 'Shows a user', defaultProps: { size: 'sm' } },
+        },
+      },
+      { prefix: 'App.' }
+    );
+
+    expect(registry.get('Users.Card')).toMatchObject({
+      component: UserCard,
+      isAsync: false,
+      defaultProps: { size: 'sm' },
+      metadata: { description: 'Shows a user' },
+    });
+  });
+
+  it('should not override hand-registered components unless asked to', async () => {
+    await registry.register({ name: 'UserCard', component: Toolbar });
+    const modules = { './UserCard.tsx': { default: UserCard } };
+
+    await registry.autoDiscover(modules);
+    expect(registry.get('UserCard')?.component).toBe(Toolbar);
+
+    await registry.autoDiscover(modules, { overwrite: true });
+    expect(registry.get('UserCard')?.component).toBe(UserCard);
+  });
+});
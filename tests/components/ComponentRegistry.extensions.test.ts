@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import {
+  ReactComponentRegistry,
+  createExtension,
+} from '../../resources/js/components/ReactComponentRegistry';
+import type { IRegistryExtension } from '../../resources/js/interfaces/IComponentRegistry';
+
+const TestComponent = () => React.createElement('div', null, 'Test');
+const Wrapped = () => React.createElement('section', null, 'Wrapped');
+
+describe('ComponentRegistry - Extensions', () => {
+  let registry: ReactComponentRegistry;
+
+  beforeEach(() => {
+    registry = new ReactComponentRegistry();
+  });
+
+  it('should install hooks, middleware and run install', () => {
+    const onRegistered = vi.fn();
+    const install = vi.fn();
+
+    registry.registerExtension({
+      name: 'analytics',
+      hooks: { 'component:registered': onRegistered },
+      middleware: [() => Wrapped],
+      install,
+    });
+    registry.register({ name: 'Tracked', component: TestComponent, isAsync: false });
+
+    expect(install).toHaveBeenCalledWith(registry);
+    expect(onRegistered).toHaveBeenCalledTimes(1);
+    expect(registry.get('Tracked')?.component).toBe(Wrapped);
+    expect(registry.getExtension('analytics')?.name).toBe('analytics');
+  });
+
+  it('should remove middleware and hooks when unregistered', () => {
+    const onRegistered = vi.fn();
+    const uninstall = vi.fn();
+    registry.registerExtension({
+      name: 'analytics',
+      hooks: { 'component:registered': { callback: onRegistered, priority: 20 } },
+      middleware: [() => Wrapped],
+      uninstall,
+    });
+
+    expect(registry.unregisterExtension('analytics')).toBe(true);
+    registry.register({ name: 'Plain', component: TestComponent, isAsync: false });
+
+    expect(uninstall).toHaveBeenCalledWith(registry);
+    expect(onRegistered).not.toHaveBeenCalled();
+    expect(registry.get('Plain')?.component).toBe(TestComponent);
+    expect(registry.unregisterExtension('analytics')).toBe(false);
+  });
+
+  it('should enforce dependencies and conflicts', () => {
+    expect(() => registry.registerExtension({ name: 'charts', dependsOn: ['theme'] })).toThrow(
+      'Extension [charts] requires [theme] which is not registered.'
+    );
+
+    registry.registerExtension({ name: 'theme', conflictsWith: ['legacy-theme'] });
+    registry.registerExtension({ name: 'charts', dependsOn: ['theme'] });
+
+    expect(() => registry.registerExtension({ name: 'legacy-theme' })).toThrow(
+      'Extension [legacy-theme] conflicts with [theme].'
+    );
+    expect(() => registry.registerExtension({ name: 'theme' })).toThrow(
+      'Extension [theme] is already registered.'
+    );
+    expect(() => registry.unregisterExtension('theme')).toThrow(
+      'Extension [theme] is required by [charts].'
+    );
+  });
+
+  it('should install a batch of extensions in dependency order', () => {
+    const extensions: IRegistryExtension[] = [
+      { name: 'charts', dependsOn: ['theme'] },
+      { name: 'theme', dependsOn: ['base'] },
+      { name: 'base' },
+    ];
+
+    registry.registerExtensions(extensions);
+
+    expect(registry.getExtensionNames()).toEqual(['base', 'theme', 'charts']);
+  });
+
+  it('should roll back when install fails', () => {
+    const onRegistered = vi.fn();
+
+    expect(() =>
+      registry.registerExtension({
+        name: 'broken',
+        hooks: { 'component:registered': onRegistered },
+        install: () => {
+          throw new Error('install failed');
+        },
+      })
+    ).toThrow('install failed');
+
+    registry.register({ name: 'After', component: TestComponent, isAsync: false });
+
+    expect(onRegistered).not.toHaveBeenCalled();
+    expect(registry.getExtension('broken')).toBeUndefined();
+  });
+
+  it('should create extensions with createExtension', () => {
+    const setup = vi.fn();
+
+    registry.registerExtension(createExtension('helper', setup, { version: '1.0.0' }));
+
+    expect(setup).toHaveBeenCalledWith(registry);
+    expect(registry.getExtension('helper')?.version).toBe('1.0.0');
+  });
+});
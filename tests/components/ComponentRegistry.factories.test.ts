@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { createRoot } from 'react-dom/client';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import type { IComponentFactory } from '../../resources/js/interfaces/IComponentRegistry';
+
+const Widget = ({ label }: { label?: string }) => React.createElement('span', null, label);
+
+describe('ComponentRegistry - Factories', () => {
+  beforeEach(() => {
+    componentRegistry.clear();
+  });
+
+  it('should create components through a custom factory kind', () => {
+    const WebComponent = () => React.createElement('x-widget');
+    const factory: IComponentFactory = { createComponent: vi.fn(() => WebComponent) };
+    componentRegistry.registerFactory('web-component', factory);
+    componentRegistry.register({ name: 'Web', component: Widget, kind: 'web-component' });
+
+    expect(componentRegistry.create('Web', { label: 'a' })).not.toBeNull();
+    expect(factory.createComponent).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Web' }),
+      { label: 'a' },
+      expect.objectContaining({ registry: componentRegistry })
+    );
+    expect(componentRegistry.createChild('factories').getFactory('web-component')).toBe(factory);
+  });
+
+  it('should bind default props for sync components', async () => {
+    componentRegistry.register({
+      name: 'Widget',
+      component: Widget,
+      isAsync: false,
+      defaultProps: { label: 'default' },
+    });
+    document.body.innerHTML = '<div id="factory"></div>';
+
+    const Created = componentRegistry.create('Widget')!;
+    const root = createRoot(document.getElementById('factory')!);
+    await act(async () => {
+      root.render(React.createElement(Created));
+    });
+
+    expect(document.getElementById('factory')?.textContent).toBe('default');
+
+    act(() => root.unmount());
+  });
+
+  it('should load lazy components once and serve them from the cache', async () => {
+    const loader = vi.fn(async () => ({ default: Widget }));
+    componentRegistry.register({ name: 'Lazy', component: loader, isAsync: true });
+    document.body.innerHTML = '<div id="first"></div><div id="second"></div>';
+
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Lazy',
+        props: { label: 'one' },
+        containerId: 'first',
+      });
+    });
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Lazy',
+        props: { label: 'two' },
+        containerId: 'second',
+      });
+    });
+
+    expect(document.getElementById('first')?.textContent).toBe('one');
+    expect(document.getElementById('second')?.textContent).toBe('two');
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    act(() => universalReactRenderer.unmountAll());
+  });
+});
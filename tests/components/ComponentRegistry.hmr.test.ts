@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { hotReplaceComponent } from '../../resources/js/vite/hmr';
+import { reactWrapperHmr } from '../../resources/js/vite/plugin';
+
+const Before = ({ label }: { label?: string }) => React.createElement('div', null, `v1 ${label}`);
+const After = ({ label }: { label?: string }) => React.createElement('div', null, `v2 ${label}`);
+
+describe('ComponentRegistry - Hot Module Replacement', () => {
+  beforeEach(() => {
+    componentRegistry.clear();
+  });
+
+  it('should swap the component and re-apply middleware', async () => {
+    const middleware = vi.fn(component => component);
+    componentRegistry.addMiddleware(middleware);
+    await componentRegistry.register({ name: 'Card', component: Before, isAsync: false });
+
+    const replaced = vi.fn();
+    componentRegistry.on('component:replaced', replaced);
+    await componentRegistry.replace('Card', After);
+
+    expect(componentRegistry.get('Card')?.component).toBe(After);
+    expect(middleware).toHaveBeenCalledTimes(2);
+    expect(replaced).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Card',
+        previous: expect.objectContaining({ component: Before }),
+      })
+    );
+
+    componentRegistry.off('component:replaced', replaced);
+    componentRegistry.removeMiddleware(middleware);
+  });
+
+  it('should re-render mounted containers with their props', async () => {
+    await componentRegistry.register({ name: 'Card', component: Before, isAsync: false });
+    document.body.innerHTML = '<div id="hmr"></div>';
+
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Card',
+        props: { label: 'kept' },
+        containerId: 'hmr',
+      });
+    });
+    expect(document.getElementById('hmr')?.textContent).toBe('v1 kept');
+
+    await act(async () => {
+      await componentRegistry.replace('Card', After);
+    });
+    expect(document.getElementById('hmr')?.textContent).toBe('v2 kept');
+
+    act(() => universalReactRenderer.unmount('hmr'));
+  });
+
+  it('should replace the component from a hot-updated module', async () => {
+    await componentRegistry.register({ name: 'Card', component: Before, isAsync: false });
+
+    hotReplaceComponent('Card', { default: After });
+
+    await componentRegistry.whenReady('Card');
+    expect(componentRegistry.get('Card')?.component).toBe(After);
+  });
+
+  it('should invalidate modules without a component export', async () => {
+    await componentRegistry.register({ name: 'Card', component: Before, isAsync: false });
+    const invalidate = vi.fn();
+
+    hotReplaceComponent('Card', { default: 'not a component' }, { hot: { invalidate } });
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(componentRegistry.get('Card')?.component).toBe(Before);
+  });
+
+  it('should invalidate modules of unregistered components instead of registering them', () => {
+    const invalidate = vi.fn();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    hotReplaceComponent('CardHelper', { default: After }, { hot: { invalidate } });
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(componentRegistry.has('CardHelper')).toBe(false);
+    expect(componentRegistry.isPending('CardHelper')).toBe(false);
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should reject replacing unregistered components', async () => {
+    await expect(componentRegistry.replace('Missing', After)).rejects.toThrow(
+      'Cannot replace unregistered component "Missing"'
+    );
+    expect(componentRegistry.has('Missing')).toBe(false);
+  });
+
+  it('should emit a literal import.meta.hot.accept call from the Vite plugin', () => {
+    const plugin = reactWrapperHmr({ include: /\/resources\/js\/components\/.*\.tsx$/ });
+    const transform = plugin.transform as (code: string, id: string) => { code: string } | null;
+
+    const result = transform(
+      'export default function Card() {}',
+      '/resources/js/components/Card.tsx'
+    );
+
+    expect(result?.code).toContain(
+      'import.meta.hot.accept(mod => __reactWrapperHotReplace("Card", mod, { hot: import.meta.hot }));'
+    );
+    expect(transform('export const x = 1;', '/resources/js/components/Util.tsx')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import {
+  ReactComponentRegistry,
+  componentRegistry,
+} from '../../resources/js/components/ReactComponentRegistry';
+import { registerComponent } from '../../resources/js/components/SimpleRegistration';
+
+const Chart = ({ title }: { title?: string }) => React.createElement('div', null, title);
+
+describe('ComponentRegistry - Lazy Loading', () => {
+  let registry: ReactComponentRegistry;
+
+  beforeEach(() => {
+    registry = new ReactComponentRegistry();
+  });
+
+  it('should keep plain function components synchronous', async () => {
+    const definition = await registry.register({ name: 'Chart', component: Chart });
+
+    expect(definition.isAsync).toBeFalsy();
+    expect(registry.isLoaded('Chart')).toBe(true);
+  });
+
+  it('should treat loaders registered with config.lazy as lazy components', async () => {
+    const definition = await registry.register({
+      name: 'Chart',
+      component: async () => ({ default: Chart }),
+      config: { lazy: true },
+    });
+    document.body.innerHTML = '<div id="hinted"></div>';
+
+    await act(async () => {
+      await registry.mount('Chart', 'hinted', { title: 'Loaded' });
+    });
+
+    expect(definition.isAsync).toBe(true);
+    expect(document.getElementById('hinted')?.textContent).toBe('Loaded');
+
+    act(() => registry.unmount('hinted'));
+  });
+
+  it('should render components registered through registerComponent with lazy', async () => {
+    componentRegistry.clear();
+    registerComponent('SimpleChart', Chart, { lazy: true });
+    document.body.innerHTML = '<div id="simple"></div>';
+
+    await act(async () => {
+      await componentRegistry.mount('SimpleChart', 'simple', { title: 'Rendered' });
+    });
+
+    expect(componentRegistry.get('SimpleChart')?.isAsync).toBe(false);
+    expect(document.getElementById('simple')?.textContent).toBe('Rendered');
+
+    act(() => componentRegistry.unmount('simple'));
+    componentRegistry.clear();
+  });
+
+  it('should load lazy components once for concurrent callers', async () => {
+    const loader = vi.fn(async () => ({ default: Chart }));
+    const events: string[] = [];
+    registry.on('component:loading', () => events.push('loading'));
+    registry.on('component:loaded', () => events.push('loaded'));
+    await registry.register({
+      name: 'Chart',
+      component: loader,
+      isAsync: true,
+      config: { lazy: true },
+    });
+
+    expect(registry.isLoaded('Chart')).toBe(false);
+
+    const [first, second] = await Promise.all([registry.load('Chart'), registry.load('Chart')]);
+
+    expect(first).toBe(Chart);
+    expect(second).toBe(Chart);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(events).toEqual(['loading', 'loaded']);
+    expect(registry.isLoaded('Chart')).toBe(true);
+  });
+
+  it('should retry failed chunk loads with backoff', async () => {
+    const loader = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Failed to fetch dynamically imported module'))
+      .mockResolvedValueOnce({ default: Chart });
+    await registry.register({
+      name: 'Chart',
+      component: loader,
+      isAsync: true,
+      config: { lazy: true, retryDelay: 1 },
+    });
+
+    await expect(registry.load('Chart')).resolves.toBe(Chart);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report load failures once retries are exhausted', async () => {
+    const failed = vi.fn();
+    const error = new Error('Chunk load failed');
+    registry.on('component:load-failed', failed);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await registry.register({
+      name: 'Chart',
+      component: vi.fn().mockRejectedValue(error),
+      isAsync: true,
+      config: { lazy: true, retries: 1, retryDelay: 1 },
+    });
+
+    await expect(registry.load('Chart')).resolves.toBeNull();
+    expect(failed).toHaveBeenCalledWith({ name: 'Chart', error });
+
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('should load lazy components before mounting', async () => {
+    await registry.register({
+      name: 'Chart',
+      component: async () => ({ default: Chart }),
+      isAsync: true,
+      config: { lazy: true },
+    });
+    document.body.innerHTML = '<div id="lazy"></div>';
+
+    await act(async () => {
+      await registry.mount('Chart', 'lazy', { title: 'Sales' });
+    });
+
+    expect(registry.isLoaded('Chart')).toBe(true);
+    expect(document.getElementById('lazy')?.textContent).toBe('Sales');
+
+    act(() => registry.unmount('lazy'));
+  });
+});
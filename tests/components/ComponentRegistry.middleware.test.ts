@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { ReactComponentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+
+const TestComponent = () => React.createElement('div', null, 'Test');
+const Wrapped = () => React.createElement('section', null, 'Wrapped');
+
+describe('ComponentRegistry - Middleware Pipeline', () => {
+  let registry: ReactComponentRegistry;
+
+  beforeEach(() => {
+    registry = new ReactComponentRegistry();
+  });
+
+  it('should register synchronously when middleware is synchronous', async () => {
+    registry.addMiddleware(() => Wrapped);
+
+    const promise = registry.register({ name: 'Sync', component: TestComponent });
+
+    expect(registry.has('Sync')).toBe(true);
+    expect(registry.get('Sync')?.component).toBe(Wrapped);
+    await expect(promise).resolves.toMatchObject({ name: 'Sync' });
+  });
+
+  it('should keep the component pending until async middleware resolves', async () => {
+    const registered: string[] = [];
+    registry.on('component:registered', data => {
+      registered.push((data as { definition: { name: string } }).definition.name);
+    });
+    registry.addMiddleware(async () => Wrapped);
+
+    const promise = registry.register({ name: 'Async', component: TestComponent });
+
+    expect(registry.has('Async')).toBe(false);
+    expect(registry.isPending('Async')).toBe(true);
+    expect(registered).toEqual([]);
+
+    const definition = await promise;
+
+    expect(definition.component).toBe(Wrapped);
+    expect(registry.get('Async')?.component).toBe(Wrapped);
+    expect(registry.isPending('Async')).toBe(false);
+    expect(registered).toEqual(['Async']);
+  });
+
+  it('should continue the chain after a failing async middleware', async () => {
+    const seen: unknown[] = [];
+    registry.addMiddleware(async () => {
+      throw new Error('flags unavailable');
+    });
+    registry.addMiddleware(component => {
+      seen.push(component);
+      return component;
+    });
+
+    await registry.register({ name: 'Resilient', component: TestComponent });
+
+    expect(seen).toEqual([TestComponent]);
+    expect(registry.has('Resilient')).toBe(true);
+  });
+
+  it('should resolve whenReady for pending registrations', async () => {
+    registry.addMiddleware(async component => component);
+    registry.register({ name: 'Later', component: TestComponent });
+
+    const definition = await registry.whenReady('Later');
+
+    expect(definition?.name).toBe('Later');
+    await expect(registry.whenReady('Unknown')).resolves.toBeUndefined();
+  });
+
+  it('should discard a pending registration when unregistered', async () => {
+    registry.addMiddleware(async component => component);
+    const promise = registry.register({ name: 'Removed', component: TestComponent });
+
+    registry.unregister('Removed');
+    await promise;
+
+    expect(registry.has('Removed')).toBe(false);
+  });
+});
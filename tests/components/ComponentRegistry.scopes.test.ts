@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import {
+  componentRegistry,
+  getRegistry,
+} from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+
+const Shared = () => React.createElement('div', null, 'shared');
+const Global = () => React.createElement('div', null, 'global');
+const Panel = () => React.createElement('div', null, 'panel');
+
+describe('ComponentRegistry - Scoped Registries', () => {
+  beforeEach(() => {
+    componentRegistry.clear();
+  });
+
+  it('should inherit components from the parent registry', () => {
+    const child = componentRegistry.createChild('admin');
+    componentRegistry.register({ name: 'Shared', component: Shared, isAsync: false });
+
+    expect(child.has('Shared')).toBe(true);
+    expect(child.hasOwn('Shared')).toBe(false);
+    expect(child.get('Shared')?.component).toBe(Shared);
+    expect(child.getComponentNames()).toContain('Shared');
+  });
+
+  it('should override parent components per scope', () => {
+    componentRegistry.register({ name: 'Header', component: Global, isAsync: false });
+    const child = componentRegistry.createChild('billing');
+    child.register({ name: 'Header', component: Panel, isAsync: false });
+
+    expect(child.get('Header')?.component).toBe(Panel);
+    expect(componentRegistry.get('Header')?.component).toBe(Global);
+  });
+
+  it('should resolve registries by scope name', () => {
+    const child = componentRegistry.createChild('tenant-a');
+
+    expect(getRegistry('tenant-a')).toBe(child);
+    expect(componentRegistry.createChild('tenant-a')).toBe(child);
+    expect(getRegistry()).toBe(componentRegistry);
+    expect(child.getScope()).toBe('tenant-a');
+    expect(child.getParent()).toBe(componentRegistry);
+  });
+
+  it('should complete deferred child registrations when the parent registers a dependency', async () => {
+    const child = componentRegistry.createChild('reports');
+    const registration = child.register({
+      name: 'Report',
+      component: Panel,
+      isAsync: false,
+      config: { dependencies: ['Shared'] },
+    });
+
+    componentRegistry.register({ name: 'Shared', component: Shared, isAsync: false });
+
+    await expect(registration).resolves.toMatchObject({ name: 'Report' });
+  });
+
+  it('should render against the registry named by the container', async () => {
+    componentRegistry.register({ name: 'Header', component: Global, isAsync: false });
+    componentRegistry
+      .createChild('panel-x')
+      .register({ name: 'Header', component: Panel, isAsync: false });
+    document.body.innerHTML = '<div id="scoped"></div>';
+
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Header',
+        containerId: 'scoped',
+        registry: 'panel-x',
+      });
+    });
+
+    expect(document.getElementById('scoped')?.textContent).toBe('panel');
+
+    act(() => universalReactRenderer.unmount('scoped'));
+  });
+
+  it('should stop listening to the parent once disposed or replaced', () => {
+    const child = componentRegistry.createChild('disposable');
+    const resolveDeferred = vi.spyOn(
+      child as unknown as { resolveDeferred: () => void },
+      'resolveDeferred'
+    );
+    child.createChild('disposable-nested');
+    child.register({ name: 'Local', component: Panel, isAsync: false });
+
+    child.dispose();
+    resolveDeferred.mockClear();
+    componentRegistry.register({ name: 'Shared', component: Shared, isAsync: false });
+
+    expect(resolveDeferred).not.toHaveBeenCalled();
+    expect(child.has('Local')).toBe(false);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getRegistry('disposable')).toBe(componentRegistry);
+    expect(getRegistry('disposable-nested')).toBe(componentRegistry);
+
+    const replaced = componentRegistry.createChild('replaced');
+    const replacedResolve = vi.spyOn(
+      replaced as unknown as { resolveDeferred: () => void },
+      'resolveDeferred'
+    );
+    componentRegistry.createChild('other').createChild('replaced');
+    componentRegistry.register({ name: 'Global', component: Global, isAsync: false });
+
+    expect(replacedResolve).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import type { IErrorFallbackProps } from '../../resources/js/interfaces/IComponentRegistry';
+
+let failing = false;
+const Flaky = () => {
+  if (failing) {
+    throw new Error('Database connection refused');
+  }
+  return React.createElement('p', null, 'Recovered');
+};
+
+const CustomFallback = ({ error, attempts }: IErrorFallbackProps) =>
+  React.createElement('p', { 'data-fallback': 'custom' }, `${error.message} after ${attempts}`);
+
+const GlobalFallback = () => React.createElement('p', null, 'Global fallback');
+
+const render = (component: string) =>
+  act(() => {
+    universalReactRenderer.render({ component, containerId: 'boundary' });
+  });
+
+const text = () => document.getElementById('boundary')?.textContent;
+
+describe('ReactErrorBoundary', () => {
+  const initialConfig = universalReactRenderer.getConfig();
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    componentRegistry.clear();
+    document.body.innerHTML = '<div id="boundary"></div>';
+    await componentRegistry.register({ name: 'Flaky', component: Flaky });
+    failing = false;
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmount('boundary'));
+    universalReactRenderer.configure({
+      ...initialConfig,
+      errorFallback: undefined,
+      reporter: undefined,
+    });
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should use per-definition fallbacks over the global ones', async () => {
+    universalReactRenderer.configure({ errorFallback: GlobalFallback });
+    await componentRegistry.register({
+      name: 'Custom',
+      component: Flaky,
+      config: { errorFallback: CustomFallback },
+    });
+
+    failing = true;
+    render('Custom');
+    expect(text()).toBe('Database connection refused after 0');
+
+    act(() => universalReactRenderer.unmount('boundary'));
+    failing = true;
+    render('Flaky');
+    expect(text()).toBe('Global fallback');
+  });
+
+  it('should limit retries and back off exponentially', () => {
+    vi.useFakeTimers();
+    universalReactRenderer.configure({ maxRetries: 2, retryDelay: 100 });
+    failing = true;
+    render('Flaky');
+
+    const retry = () => fireEvent.click(document.querySelector('button')!);
+
+    act(() => retry());
+    expect(text()).toContain('Retrying...');
+    act(() => vi.advanceTimersByTime(100));
+    expect(text()).toContain('Retry');
+
+    act(() => retry());
+    act(() => vi.advanceTimersByTime(100));
+    expect(text()).toContain('Retrying...');
+    act(() => vi.advanceTimersByTime(100));
+
+    expect(document.querySelector('button')).toBeNull();
+  });
+
+  it('should hide internal details in production and report errors', () => {
+    const reporter = vi.fn();
+    universalReactRenderer.configure({ production: true, reporter });
+
+    failing = true;
+    render('Flaky');
+    expect(text()).toContain('An unexpected error occurred');
+    expect(text()).not.toContain('Database');
+    expect(reporter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        componentName: 'Flaky',
+        containerId: 'boundary',
+        componentStack: expect.stringContaining('Flaky'),
+      })
+    );
+
+    act(() => universalReactRenderer.unmount('boundary'));
+    render('Missing');
+    expect(text()).toBe('This component is currently unavailable.');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { FilamentReactAdapter } from '../../resources/js/components/adapters/FilamentReactAdapter';
+import { useEntangle } from '../../resources/js/components/LivewireEntangle';
+
+const Panel = ({ title }: { title?: string }) => React.createElement('section', null, title);
+const Badge = ({ label }: { label?: string }) => React.createElement('span', null, label);
+const Title = () => React.createElement('h2', null, useEntangle<string>()[0]);
+const Field = () => React.createElement('em', null, useEntangle<string>('data.title')[0]);
+
+const flush = (ms = 10) =>
+  act(async () => {
+    await new Promise(resolve => setTimeout(resolve, ms));
+  });
+
+const morphTarget = (html: string) => {
+  const template = document.createElement('template');
+  template.innerHTML = html.trim();
+  return template.content.firstElementChild!;
+};
+
+describe('FilamentReactAdapter - Livewire Hooks', () => {
+  // Payloads are partial stand-ins for Livewire's
+  let hooks: Map<string, (payload: unknown) => unknown>;
+  let unhook: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    componentRegistry.clear();
+    hooks = new Map();
+    unhook = vi.fn();
+    window.Livewire = {
+      find: () => undefined,
+      hook: (name, callback) => {
+        hooks.set(name, callback as (payload: unknown) => unknown);
+        return unhook;
+      },
+    };
+    await componentRegistry.register({ name: 'Panel', component: Panel });
+    await componentRegistry.register({ name: 'Badge', component: Badge });
+    await componentRegistry.register({ name: 'Title', component: Title });
+    await componentRegistry.register({ name: 'Field', component: Field });
+    document.body.innerHTML = `
+      <div wire:id="form-1">
+        <div id="panel" data-react-component="Panel" data-react-state-path="data.panel" data-react-props='{"title":"Hello"}'></div>
+      </div>
+    `;
+    FilamentReactAdapter.initializeComponents();
+    FilamentReactAdapter.setupLivewireHooks();
+    await flush();
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+    FilamentReactAdapter.cleanup();
+    delete window.Livewire;
+  });
+
+  it('should skip morphing mounted containers and apply their new props', () => {
+    const panel = document.getElementById('panel')!;
+    const section = panel.firstElementChild;
+    const skip = vi.fn();
+
+    act(() => {
+      hooks.get('morph.updating')!({
+        el: panel,
+        toEl: morphTarget(
+          `<div id="panel" data-react-component="Panel" data-react-props='{"title":"Morphed"}'></div>`
+        ),
+        skip,
+      });
+    });
+
+    expect(skip).toHaveBeenCalledTimes(1);
+    expect(panel.textContent).toBe('Morphed');
+    expect(panel.firstElementChild).toBe(section);
+    expect(panel.dataset.reactProps).toBe('{"title":"Morphed"}');
+  });
+
+  it('should unmount containers morphed into another component', () => {
+    const panel = document.getElementById('panel')!;
+    const skip = vi.fn();
+
+    act(() => {
+      hooks.get('morph.updating')!({
+        el: panel,
+        toEl: morphTarget(`<div id="panel" data-react-component="Badge"></div>`),
+        skip,
+      });
+    });
+
+    expect(skip).not.toHaveBeenCalled();
+    expect(universalReactRenderer.isRendered('panel')).toBe(false);
+    expect(panel.hasAttribute('data-react-rendered')).toBe(false);
+  });
+
+  it('should scan only morphed subtrees for new containers', async () => {
+    const scan = vi.spyOn(document, 'querySelectorAll');
+    const added = document.createElement('div');
+    added.innerHTML = `<div id="badge" data-react-component="Badge" data-react-props='{"label":"New"}'></div>`;
+    document.body.appendChild(added);
+
+    hooks.get('morph.added')!({ el: added });
+    await flush(150);
+
+    expect(document.getElementById('badge')?.textContent).toBe('New');
+    expect(scan).not.toHaveBeenCalledWith('[data-react-component]:not([data-react-rendered])');
+    scan.mockRestore();
+  });
+
+  it('should deliver server values to useEntangle only through the commit hook', async () => {
+    const updates = vi.fn();
+    document.addEventListener('livewire:update', updates);
+    const watch = vi.fn();
+    const wire = { get: vi.fn(() => 'Server'), set: vi.fn(), $watch: watch };
+    window.Livewire!.find = () => wire;
+    document.body.insertAdjacentHTML(
+      'beforeend',
+      '<div wire:id="form-2"><div id="title" data-react-component="Title" data-react-state-path="data.title"></div></div>'
+    );
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+    expect(document.getElementById('title')?.textContent).toBe('Server');
+
+    wire.get.mockReturnValue('Saved');
+    act(() => {
+      hooks.get('commit')!({
+        component: { el: document.querySelector('[wire\\:id="form-2"]'), $wire: wire },
+        succeed: (callback: () => void) => callback(),
+      });
+    });
+
+    expect(wire.get).toHaveBeenCalledWith('data.title');
+    expect(document.getElementById('title')?.textContent).toBe('Saved');
+    expect(updates).not.toHaveBeenCalled();
+    expect(watch).not.toHaveBeenCalled();
+    document.removeEventListener('livewire:update', updates);
+  });
+
+  it('should deliver server values only to hooks of the committing component', async () => {
+    const wires = {
+      'form-2': { get: vi.fn(() => 'First'), set: vi.fn() },
+      'form-3': { get: vi.fn(() => 'Second'), set: vi.fn() },
+    };
+    window.Livewire!.find = id => wires[id as keyof typeof wires];
+    document.body.insertAdjacentHTML(
+      'beforeend',
+      `<div wire:id="form-2"><div id="first" data-react-component="Title" data-react-state-path="data.title"></div></div>
+       <div wire:id="form-3"><div id="second" data-react-component="Title" data-react-state-path="data.title"></div></div>`
+    );
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    wires['form-2'].get.mockReturnValue('Saved');
+    act(() => {
+      hooks.get('commit')!({
+        component: { el: document.querySelector('[wire\\:id="form-2"]'), $wire: wires['form-2'] },
+        succeed: (callback: () => void) => callback(),
+      });
+    });
+
+    expect(document.getElementById('first')?.textContent).toBe('Saved');
+    expect(document.getElementById('second')?.textContent).toBe('Second');
+  });
+
+  it('should deliver server values to hooks bound to an explicit state path', async () => {
+    const watch = vi.fn();
+    const wire = { get: vi.fn(() => 'Server'), set: vi.fn(), $watch: watch };
+    window.Livewire!.find = () => wire;
+    document.body.insertAdjacentHTML(
+      'beforeend',
+      '<div wire:id="form-2"><div id="field" data-react-component="Field" data-react-state-path="data"></div></div>'
+    );
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    wire.get.mockImplementation(path => (path === 'data.title' ? 'Saved' : {}));
+    act(() => {
+      hooks.get('commit')!({
+        component: { el: document.querySelector('[wire\\:id="form-2"]'), $wire: wire },
+        succeed: (callback: () => void) => callback(),
+      });
+    });
+
+    expect(document.getElementById('field')?.textContent).toBe('Saved');
+    expect(watch).not.toHaveBeenCalled();
+  });
+
+  it('should unregister its hooks on cleanup', () => {
+    FilamentReactAdapter.cleanup();
+
+    expect(unhook).toHaveBeenCalledTimes(hooks.size);
+  });
+});
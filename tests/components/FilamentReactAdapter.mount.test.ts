@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { FilamentReactAdapter } from '../../resources/js/components/adapters/FilamentReactAdapter';
+
+const Note = ({ text, initialData }: { text?: string; initialData?: string }) =>
+  React.createElement('p', null, initialData ?? text);
+
+let intersect: (entries: Array<{ target: Element; isIntersecting: boolean }>) => void;
+const observed: Element[] = [];
+
+const flush = () =>
+  act(async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+
+const setVisible = (element: Element, isIntersecting: boolean) =>
+  act(() => intersect([{ target: element, isIntersecting }]));
+
+describe('FilamentReactAdapter - Mount Strategies', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    observed.length = 0;
+    vi.stubGlobal(
+      'IntersectionObserver',
+      vi.fn().mockImplementation(callback => {
+        intersect = callback;
+        return {
+          observe: (element: Element) => observed.push(element),
+          unobserve: vi.fn(),
+          disconnect: vi.fn(),
+        };
+      })
+    );
+    await componentRegistry.register({ name: 'Note', component: Note });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+    FilamentReactAdapter.cleanup();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should mount eager containers right away and visible ones once in view', async () => {
+    document.body.innerHTML = `
+      <div id="eager" data-react-component="Note" data-react-props='{"text":"eager"}'></div>
+      <div id="visible" data-react-component="Note" data-react-props='{"text":"visible"}' data-react-mount="visible"></div>
+    `;
+
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    expect(document.getElementById('eager')?.textContent).toBe('eager');
+    expect(document.getElementById('visible')?.textContent).toBe('');
+    expect(observed.map(element => element.id)).toEqual(['visible']);
+
+    setVisible(document.getElementById('visible')!, true);
+    await flush();
+
+    expect(document.getElementById('visible')?.textContent).toBe('visible');
+  });
+
+  it('should render the error fallback when a lazy container fails to load', async () => {
+    const Fallback = ({ error }: { error: Error }) =>
+      React.createElement('strong', null, error.message);
+    const errors = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    componentRegistry.registerFactory('remote', {
+      createComponent: () => null,
+      createComponentAsync: () => Promise.reject(new Error('Remote unavailable')),
+    });
+    await componentRegistry.register({
+      name: 'Remote',
+      component: Note,
+      isAsync: true,
+      kind: 'remote',
+      config: { errorFallback: Fallback },
+    });
+    document.body.innerHTML =
+      '<div id="remote" data-react-component="Remote" data-lazy="true"></div>';
+    document.getElementById('remote')!.addEventListener('react-error', errors);
+
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    expect(document.getElementById('remote')?.textContent).toBe('Remote unavailable');
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect(document.getElementById('remote')?.hasAttribute('data-react-rendered')).toBe(false);
+
+    componentRegistry.unregisterFactory('remote');
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('should mount idle containers when the browser is idle', async () => {
+    const idle: Array<() => void> = [];
+    vi.stubGlobal('requestIdleCallback', (callback: () => void) => idle.push(callback));
+    document.body.innerHTML = `<div id="idle" data-react-component="Note" data-react-props='{"text":"idle"}' data-react-mount="idle"></div>`;
+
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+    expect(document.getElementById('idle')?.textContent).toBe('');
+
+    idle.forEach(callback => callback());
+    await flush();
+    expect(document.getElementById('idle')?.textContent).toBe('idle');
+  });
+
+  it('should mount interaction containers on first focus or click', async () => {
+    document.body.innerHTML = `<div id="focus" data-react-component="Note" data-react-props='{"text":"focus"}' data-react-mount="interaction"><input></div>`;
+
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+    expect(universalReactRenderer.isRendered('focus')).toBe(false);
+
+    fireEvent.focusIn(document.querySelector('input')!);
+    await flush();
+    expect(document.getElementById('focus')?.textContent).toBe('focus');
+  });
+
+  it('should unmount offscreen containers after a timeout and restore their props', async () => {
+    document.body.innerHTML = `<div id="offscreen" data-react-component="Note" data-react-props='{"text":"server"}' data-react-mount="visible" data-react-unmount-offscreen="1000"></div>`;
+    const element = document.getElementById('offscreen')!;
+
+    FilamentReactAdapter.initializeComponents();
+    setVisible(element, true);
+    await flush();
+    act(() => {
+      universalReactRenderer.updateProps('offscreen', { text: 'updated' });
+    });
+
+    vi.useFakeTimers();
+    setVisible(element, false);
+    act(() => vi.advanceTimersByTime(1000));
+    vi.useRealTimers();
+
+    expect(universalReactRenderer.isRendered('offscreen')).toBe(false);
+    expect(element.hasAttribute('data-react-rendered')).toBe(false);
+
+    setVisible(element, true);
+    await flush();
+    expect(element.textContent).toBe('updated');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { FilamentReactAdapter } from '../../resources/js/components/adapters/FilamentReactAdapter';
+import { statePersistenceService } from '../../resources/js/services/StatePersistenceService';
+
+const Counter = ({ initialData }: { initialData?: number }) => {
+  const [count, setCount] = React.useState(initialData ?? 0);
+  return React.createElement('button', { onClick: () => setCount(count + 1) }, String(count));
+};
+
+const Note = ({ text, initialData }: { text?: string; initialData?: string }) =>
+  React.createElement('p', null, initialData ?? text);
+
+const flush = () =>
+  act(async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+
+// What wire:navigate does: announce, swap the body, announce again
+const navigate = async (html: string) => {
+  act(() => {
+    document.dispatchEvent(new CustomEvent('livewire:navigating'));
+  });
+  const body = document.createElement('body');
+  body.innerHTML = html;
+  document.documentElement.replaceChild(body, document.body);
+  act(() => {
+    document.dispatchEvent(new CustomEvent('livewire:navigated'));
+  });
+  await flush();
+};
+
+describe('FilamentReactAdapter - wire:navigate', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    await componentRegistry.register({ name: 'Counter', component: Counter });
+    await componentRegistry.register({ name: 'Note', component: Note });
+  });
+
+  afterEach(async () => {
+    act(() => universalReactRenderer.unmountAll());
+    universalReactRenderer.configure({ portalMode: false });
+    FilamentReactAdapter.cleanup();
+    await statePersistenceService.clear();
+  });
+
+  it('should unmount the roots of the page navigated away from', async () => {
+    const unmounted = vi.fn();
+    document.addEventListener('react-unmounted', unmounted);
+    document.body.innerHTML = `<div id="old" data-react-component="Note" data-react-props='{"text":"old"}'></div>`;
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    await navigate(
+      `<div id="new" data-react-component="Note" data-react-props='{"text":"new"}'></div>`
+    );
+
+    expect(universalReactRenderer.getActiveContainers()).toEqual(['new']);
+    expect(document.getElementById('new')?.textContent).toBe('new');
+    expect(unmounted).toHaveBeenCalledTimes(1);
+    expect(unmounted.mock.calls[0]![0].detail).toMatchObject({ containerId: 'old' });
+    document.removeEventListener('react-unmounted', unmounted);
+  });
+
+  it('should carry data-react-persist containers into their placeholder', async () => {
+    document.body.innerHTML = `<div id="chat" data-react-component="Counter" data-react-persist="chat"></div>`;
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+    const chat = document.getElementById('chat')!;
+    fireEvent.click(chat.querySelector('button')!);
+
+    await navigate(`
+      <main>Next page</main>
+      <div id="chat" data-react-component="Counter" data-react-persist="chat"></div>
+    `);
+
+    expect(document.getElementById('chat')).toBe(chat);
+    expect(chat.isConnected).toBe(true);
+    expect(chat.textContent).toBe('1');
+    expect(universalReactRenderer.getActiveContainers()).toEqual(['chat']);
+  });
+
+  it('should keep the state of persisted containers rendered through the portal root', async () => {
+    universalReactRenderer.configure({ portalMode: true });
+    document.body.innerHTML = `
+      <div id="chat" data-react-component="Counter" data-react-persist="chat"></div>
+      <div id="old" data-react-component="Note"></div>
+    `;
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+    const chat = document.getElementById('chat')!;
+    fireEvent.click(chat.querySelector('button')!);
+    fireEvent.click(chat.querySelector('button')!);
+
+    await navigate(`
+      <div id="new" data-react-component="Note" data-react-props='{"text":"new"}'></div>
+      <div id="chat" data-react-component="Counter" data-react-persist="chat"></div>
+    `);
+
+    expect(universalReactRenderer.isPortal('chat')).toBe(true);
+    expect(document.getElementById('new')?.textContent).toBe('new');
+    expect(chat.textContent).toBe('2');
+    expect(document.querySelectorAll('[data-react-wrapper-portal-host]')).toHaveLength(1);
+  });
+
+  it('should release persisted containers the next page has no placeholder for', async () => {
+    document.body.innerHTML = `<div id="chat" data-react-component="Counter" data-react-persist="chat"></div>`;
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    await navigate('<main>Elsewhere</main>');
+
+    expect(universalReactRenderer.isRendered('chat')).toBe(false);
+  });
+
+  it('should restore data-react-keep-state containers when their page comes back', async () => {
+    const page = `<div id="draft" data-react-component="Note" data-react-keep-state data-react-props='{"text":"server"}'></div>`;
+    document.body.innerHTML = page;
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+    act(() => {
+      universalReactRenderer.updateProps('draft', { text: 'edited' });
+    });
+
+    await navigate('<main>Elsewhere</main>');
+    await navigate(page);
+
+    expect(document.getElementById('draft')?.textContent).toBe('edited');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { FilamentReactAdapter } from '../../resources/js/components/adapters/FilamentReactAdapter';
+import { statePersistenceService } from '../../resources/js/services/StatePersistenceService';
+import { devTools } from '../../resources/js/services/DevTools';
+
+const Panel = ({ title }: { title?: string }) => React.createElement('section', null, title);
+
+const flush = () =>
+  act(async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+
+describe('FilamentReactAdapter - Removed Containers', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    devTools.clear();
+    await componentRegistry.register({ name: 'Panel', component: Panel });
+    document.body.innerHTML = `
+      <div id="wrapper">
+        <div id="panel" data-react-component="Panel" data-react-state-path="form.panel" data-react-props='{"title":"Hello"}'></div>
+      </div>
+    `;
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+  });
+
+  afterEach(async () => {
+    act(() => universalReactRenderer.unmountAll());
+    await statePersistenceService.clear();
+    localStorage.clear();
+    FilamentReactAdapter.cleanup();
+  });
+
+  it('should unmount containers removed from the document', async () => {
+    const unmounted = vi.fn();
+    document.addEventListener('react-unmounted', unmounted);
+    expect(universalReactRenderer.isRendered('panel')).toBe(true);
+
+    document.getElementById('wrapper')!.remove();
+    await flush();
+
+    expect(universalReactRenderer.isRendered('panel')).toBe(false);
+    expect(unmounted).toHaveBeenCalledTimes(1);
+    expect(unmounted.mock.calls[0]![0].detail).toMatchObject({
+      containerId: 'panel',
+      componentName: 'Panel',
+      removed: true,
+    });
+    expect(devTools.getLeakReport()).toHaveLength(0);
+    document.removeEventListener('react-unmounted', unmounted);
+  });
+
+  it('should keep containers that were only moved', async () => {
+    const panel = document.getElementById('panel')!;
+
+    document.body.appendChild(panel);
+    await flush();
+
+    expect(universalReactRenderer.isRendered('panel')).toBe(true);
+    expect(panel.textContent).toBe('Hello');
+  });
+
+  it('should flush and unregister persistence under the removed state path', async () => {
+    statePersistenceService.register({ key: 'form.panel.draft', debounceMs: 1000 });
+    statePersistenceService.register({ key: 'form.other' });
+    await statePersistenceService.save('form.panel.draft', { text: 'unsaved' });
+
+    document.getElementById('panel')!.remove();
+    await flush();
+
+    expect(statePersistenceService.getRegisteredKeys()).toEqual(['form.other']);
+    expect(localStorage.getItem('form.panel.draft')).toContain('unsaved');
+  });
+
+  it('should list roots whose container was detached in the DevTools leak report', async () => {
+    FilamentReactAdapter.cleanup();
+
+    document.getElementById('panel')!.remove();
+    await flush();
+
+    expect(devTools.getLeakReport().map(root => root.containerId)).toEqual(['panel']);
+
+    act(() => universalReactRenderer.unmount('panel'));
+    expect(devTools.getLeakReport()).toHaveLength(0);
+  });
+});
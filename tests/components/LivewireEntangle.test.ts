@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { useEntangle, type EntangleMode } from '../../resources/js/components/LivewireEntangle';
+
+const TitleInput = ({ mode }: { mode?: EntangleMode }) => {
+  const [title, setTitle, { commit, connected }] = useEntangle<string>(undefined, {
+    mode,
+    debounce: 20,
+  });
+  return React.createElement('input', {
+    value: title ?? '',
+    'data-connected': String(connected),
+    onChange: (event: { target: { value: string } }) => setTitle(event.target.value),
+    onBlur: commit,
+  });
+};
+
+const wait = (ms: number) =>
+  act(async () => {
+    await new Promise(resolve => setTimeout(resolve, ms));
+  });
+
+describe('useEntangle', () => {
+  let watchers: Map<string, (value: unknown) => void>;
+  let wire: { get: ReturnType<typeof vi.fn>; set: ReturnType<typeof vi.fn>; $watch: unknown };
+
+  const render = (mode?: EntangleMode) =>
+    act(() => {
+      universalReactRenderer.render({
+        component: 'TitleInput',
+        props: { mode },
+        containerId: 'field',
+        statePath: 'data.title',
+      });
+    });
+
+  const input = () => document.querySelector('input')!;
+
+  beforeEach(async () => {
+    componentRegistry.clear();
+    watchers = new Map();
+    wire = {
+      get: vi.fn(() => 'Server title'),
+      set: vi.fn(),
+      $watch: (name: string, callback: (value: unknown) => void) => watchers.set(name, callback),
+    };
+    window.Livewire = { find: (id: string) => (id === 'form-1' ? wire : undefined) };
+    document.body.innerHTML = '<div wire:id="form-1"><div id="field"></div></div>';
+    await componentRegistry.register({ name: 'TitleInput', component: TitleInput });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+    delete window.Livewire;
+  });
+
+  it('should read the property of the container state path and defer writes', () => {
+    render();
+
+    expect(input().value).toBe('Server title');
+    expect(input().dataset.connected).toBe('true');
+    expect(wire.get).toHaveBeenCalledWith('data.title');
+
+    fireEvent.change(input(), { target: { value: 'Draft' } });
+    expect(wire.set).toHaveBeenCalledWith('data.title', 'Draft', false);
+  });
+
+  it('should debounce live writes', async () => {
+    render('live');
+
+    fireEvent.change(input(), { target: { value: 'A' } });
+    fireEvent.change(input(), { target: { value: 'AB' } });
+    expect(wire.set).not.toHaveBeenCalled();
+
+    await wait(40);
+    expect(wire.set).toHaveBeenCalledTimes(1);
+    expect(wire.set).toHaveBeenCalledWith('data.title', 'AB', true);
+  });
+
+  it('should send blur writes on commit', () => {
+    render('blur');
+
+    fireEvent.change(input(), { target: { value: 'Typed' } });
+    expect(wire.set).not.toHaveBeenCalled();
+
+    fireEvent.blur(input());
+    expect(wire.set).toHaveBeenCalledWith('data.title', 'Typed', true);
+  });
+
+  it('should push server updates into the mounted component', () => {
+    render();
+    const element = input();
+
+    act(() => watchers.get('data.title')!('From morph'));
+    expect(element.value).toBe('From morph');
+
+    act(() => {
+      document.dispatchEvent(
+        new CustomEvent('livewire:update', {
+          detail: { statePath: 'data.title', value: 'From event' },
+        })
+      );
+    });
+    expect(element.value).toBe('From event');
+    expect(input()).toBe(element);
+  });
+
+  it('should behave like local state outside Livewire', () => {
+    document.body.innerHTML = '<div id="field"></div>';
+    render();
+
+    expect(input().dataset.connected).toBe('false');
+    fireEvent.change(input(), { target: { value: 'Local' } });
+    expect(input().value).toBe('Local');
+    expect(wire.set).not.toHaveBeenCalled();
+  });
+});
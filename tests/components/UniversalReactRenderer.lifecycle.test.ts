@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import {
+  universalReactRenderer,
+  type RenderLifecycleEvent,
+} from '../../resources/js/components/UniversalReactRenderer';
+
+const Greeting = ({ name }: { name?: string }) => React.createElement('p', null, `Hi ${name}`);
+const Broken = () => {
+  throw new Error('Broken render');
+};
+
+describe('UniversalReactRenderer - Lifecycle', () => {
+  let events: RenderLifecycleEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    componentRegistry.clear();
+    document.body.innerHTML = '<div id="lifecycle"></div>';
+    await componentRegistry.register({ name: 'Greeting', component: Greeting });
+    events = [];
+    unsubscribe = universalReactRenderer.subscribe(event => events.push(event));
+  });
+
+  it('should resolve render() after the first commit and emit lifecycle events', async () => {
+    const container = document.getElementById('lifecycle')!;
+    const loaded = vi.fn();
+    container.addEventListener('react-loaded', loaded);
+
+    let committed: Promise<void> = Promise.resolve();
+    act(() => {
+      committed = universalReactRenderer.render({
+        component: 'Greeting',
+        props: { name: 'Ada' },
+        containerId: 'lifecycle',
+      });
+    });
+    await committed;
+
+    expect(container.textContent).toBe('Hi Ada');
+    expect(loaded).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      universalReactRenderer.render({
+        component: 'Greeting',
+        props: { name: 'Grace' },
+        containerId: 'lifecycle',
+      });
+    });
+    act(() => universalReactRenderer.unmount('lifecycle'));
+
+    expect(events.map(event => event.type)).toEqual([
+      'mounting',
+      'mounted',
+      'updated',
+      'unmounting',
+      'unmounted',
+    ]);
+    expect(events[1]).toMatchObject({ containerId: 'lifecycle', componentName: 'Greeting' });
+    unsubscribe();
+  });
+
+  it('should settle every render queued before a commit', async () => {
+    let first: Promise<void> = Promise.resolve();
+    let second: Promise<void> = Promise.resolve();
+    act(() => {
+      first = universalReactRenderer.render({ component: 'Greeting', containerId: 'lifecycle' });
+      second = universalReactRenderer.render({
+        component: 'Greeting',
+        props: { name: 'Linus' },
+        containerId: 'lifecycle',
+      });
+    });
+
+    await expect(Promise.all([first, second])).resolves.toBeDefined();
+    expect(document.getElementById('lifecycle')?.textContent).toBe('Hi Linus');
+
+    act(() => universalReactRenderer.unmount('lifecycle'));
+    unsubscribe();
+  });
+
+  it('should report errors as errored events on the renderer and the container', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await componentRegistry.register({ name: 'Broken', component: Broken });
+    const errored = vi.fn();
+    document.getElementById('lifecycle')!.addEventListener('react-error', errored);
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Broken', containerId: 'lifecycle' });
+    });
+
+    expect(events.find(event => event.type === 'errored')?.error?.message).toBe('Broken render');
+    expect(errored).toHaveBeenCalledTimes(1);
+    expect(errored.mock.calls[0]?.[0].detail).toMatchObject({
+      componentName: 'Broken',
+      error: 'Broken render',
+      message: 'Broken render',
+    });
+
+    act(() => universalReactRenderer.unmount('lifecycle'));
+    unsubscribe();
+  });
+
+  it('should remount a container that was replaced in the DOM', async () => {
+    act(() => {
+      universalReactRenderer.render({ component: 'Greeting', containerId: 'lifecycle' });
+    });
+    document.body.innerHTML = '<div id="lifecycle"></div>';
+
+    act(() => {
+      universalReactRenderer.render({
+        component: 'Greeting',
+        props: { name: 'again' },
+        containerId: 'lifecycle',
+      });
+    });
+
+    expect(document.getElementById('lifecycle')?.textContent).toBe('Hi again');
+    expect(events.filter(event => event.type === 'mounted')).toHaveLength(2);
+
+    act(() => universalReactRenderer.unmount('lifecycle'));
+    unsubscribe();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+
+const Cell = ({ value }: { value?: number }) => {
+  const [clicks, setClicks] = React.useState(0);
+  return React.createElement(
+    'button',
+    { onClick: () => setClicks(clicks + 1) },
+    `${value}:${clicks}`
+  );
+};
+
+const cells = ['cell-1', 'cell-2', 'cell-3'];
+
+const StoreContext = React.createContext<{ id: number } | null>(null);
+let stores = 0;
+
+const StoreProvider = ({ children }: { children?: React.ReactNode }) => {
+  const [store] = React.useState(() => ({ id: ++stores }));
+  return React.createElement(StoreContext.Provider, { value: store }, children);
+};
+
+const StoreId = () =>
+  React.createElement('span', null, `store ${React.useContext(StoreContext)?.id}`);
+
+describe('UniversalReactRenderer - Portal Mode', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    document.body.innerHTML = cells.map(id => `<div id="${id}"></div>`).join('');
+    await componentRegistry.register({ name: 'Cell', component: Cell });
+    await componentRegistry.register({ name: 'StoreId', component: StoreId });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+    universalReactRenderer.configure({ portalMode: false });
+    universalReactRenderer.removeProvider(StoreProvider);
+  });
+
+  it('should render every container through one shared root', () => {
+    universalReactRenderer.configure({ portalMode: true });
+
+    act(() => {
+      cells.forEach((containerId, index) =>
+        universalReactRenderer.render({ component: 'Cell', props: { value: index }, containerId })
+      );
+    });
+
+    expect(document.querySelectorAll('[data-react-wrapper-portal-host]')).toHaveLength(1);
+    expect(cells.map(id => document.getElementById(id)?.textContent)).toEqual([
+      '0:0',
+      '1:0',
+      '2:0',
+    ]);
+    expect(cells.every(id => universalReactRenderer.isPortal(id))).toBe(true);
+  });
+
+  it('should keep state across updates and unmount single containers', () => {
+    act(() => {
+      universalReactRenderer.render({ component: 'Cell', containerId: 'cell-1', portal: true });
+      universalReactRenderer.render({ component: 'Cell', containerId: 'cell-2', portal: true });
+      universalReactRenderer.render({ component: 'Cell', containerId: 'cell-3' });
+    });
+    expect(universalReactRenderer.isPortal('cell-3')).toBe(false);
+
+    act(() => {
+      document.querySelector<HTMLElement>('#cell-1 button')!.click();
+    });
+    act(() => {
+      universalReactRenderer.updateProps('cell-1', { value: 5 });
+    });
+    expect(document.getElementById('cell-1')?.textContent).toBe('5:1');
+
+    act(() => universalReactRenderer.unmount('cell-1'));
+
+    expect(document.getElementById('cell-1')?.textContent).toBe('');
+    expect(document.getElementById('cell-2')?.textContent).toBe('undefined:0');
+    expect(universalReactRenderer.isRendered('cell-1')).toBe(false);
+  });
+
+  it('should share one instance of each provider between portals', () => {
+    stores = 0;
+    universalReactRenderer.addProvider(StoreProvider);
+
+    act(() => {
+      universalReactRenderer.render({ component: 'StoreId', containerId: 'cell-1', portal: true });
+      universalReactRenderer.render({ component: 'StoreId', containerId: 'cell-2', portal: true });
+    });
+
+    expect(document.getElementById('cell-1')?.textContent).toBe('store 1');
+    expect(document.getElementById('cell-2')?.textContent).toBe('store 1');
+    expect(stores).toBe(1);
+  });
+
+  it('should show the error fallback in every portal when a shared provider throws', () => {
+    const Broken = ({ children }: { children?: React.ReactNode }) => {
+      if (children) throw new Error('Provider failed');
+      return null;
+    };
+    const errored: string[] = [];
+    const unsubscribe = universalReactRenderer.subscribe(event => {
+      if (event.type === 'errored') errored.push(event.containerId);
+    });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    universalReactRenderer.addProvider(Broken);
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Cell', containerId: 'cell-1', portal: true });
+      universalReactRenderer.render({ component: 'Cell', containerId: 'cell-2', portal: true });
+    });
+
+    ['cell-1', 'cell-2'].forEach(id => {
+      expect(document.querySelector(`#${id} [role="alert"]`)?.textContent).toContain(
+        'Provider failed'
+      );
+    });
+    expect(errored).toEqual(['cell-1', 'cell-2']);
+
+    universalReactRenderer.removeProvider(Broken);
+    unsubscribe();
+    error.mockRestore();
+  });
+
+  it('should give definitions skipping providers a root of their own', async () => {
+    universalReactRenderer.addProvider(StoreProvider);
+    await componentRegistry.register({
+      name: 'Bare',
+      component: StoreId,
+      config: { skipProviders: true },
+    });
+
+    act(() => {
+      universalReactRenderer.render({ component: 'StoreId', containerId: 'cell-1', portal: true });
+      universalReactRenderer.render({ component: 'Bare', containerId: 'cell-2', portal: true });
+    });
+
+    expect(universalReactRenderer.isPortal('cell-2')).toBe(false);
+    expect(document.getElementById('cell-2')?.textContent).toBe('store undefined');
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Bare', containerId: 'cell-1', portal: true });
+    });
+    expect(universalReactRenderer.isPortal('cell-1')).toBe(false);
+    expect(document.getElementById('cell-1')?.textContent).toBe('store undefined');
+  });
+});
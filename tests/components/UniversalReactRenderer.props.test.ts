@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+
+const Summary = ({ title, count }: { title?: string; count?: number }) =>
+  React.createElement('p', null, `${title}: ${count}`);
+
+describe('UniversalReactRenderer - Props Updates', () => {
+  const onDataChange = vi.fn();
+
+  beforeEach(async () => {
+    componentRegistry.clear();
+    document.body.innerHTML = '<div id="summary"></div>';
+    await componentRegistry.register({ name: 'Summary', component: Summary });
+
+    act(() => {
+      universalReactRenderer.render({
+        component: 'Summary',
+        props: { title: 'Orders', count: 1 },
+        statePath: 'data.summary',
+        containerId: 'summary',
+        onDataChange,
+      });
+    });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmount('summary'));
+  });
+
+  const text = () => document.getElementById('summary')?.textContent;
+
+  it('should merge or replace props while keeping the component and callbacks', () => {
+    act(() => {
+      universalReactRenderer.updateProps('summary', { count: 2 });
+    });
+    expect(text()).toBe('Orders: 2');
+
+    act(() => {
+      universalReactRenderer.updateProps('summary', { count: 3 }, { mode: 'replace' });
+    });
+    expect(text()).toBe('undefined: 3');
+    expect(universalReactRenderer.getProps('summary')).toEqual({ count: 3 });
+  });
+
+  it('should apply JSON patches to the current props', () => {
+    act(() => {
+      universalReactRenderer.patchProps('summary', [
+        { op: 'replace', path: '/title', value: 'Open orders' },
+        { op: 'remove', path: '/count' },
+      ]);
+    });
+    expect(text()).toBe('Open orders: undefined');
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    act(() => {
+      universalReactRenderer.patchProps('summary', [{ op: 'remove', path: '/missing' }]);
+    });
+    expect(text()).toBe('Open orders: undefined');
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should warn when the container has no rendered component', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    universalReactRenderer.updateProps('unknown', { count: 1 });
+
+    expect(warn).toHaveBeenCalledWith('No rendered component found for container "unknown"');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+
+const ThemeContext = React.createContext('none');
+const LocaleContext = React.createContext('none');
+
+const ThemeProvider = ({ theme, children }: { theme: string; children?: React.ReactNode }) =>
+  React.createElement(ThemeContext.Provider, { value: theme }, children);
+
+const LocaleProvider = ({ locale, children }: { locale: string; children?: React.ReactNode }) =>
+  React.createElement(
+    'div',
+    { 'data-locale': locale },
+    React.createElement(LocaleContext.Provider, { value: locale }, children)
+  );
+
+const Label = () =>
+  React.createElement(
+    'span',
+    null,
+    `${React.useContext(ThemeContext)}/${React.useContext(LocaleContext)}`
+  );
+
+const text = () => document.getElementById('app')?.textContent;
+
+describe('UniversalReactRenderer - Providers', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    document.body.innerHTML = '<div id="app"></div>';
+    await componentRegistry.register({ name: 'Label', component: Label });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+    universalReactRenderer.getProviders().forEach(({ name }) => {
+      universalReactRenderer.removeProvider(name);
+    });
+  });
+
+  it('should render registered providers around every component in order', () => {
+    universalReactRenderer.addProvider(LocaleProvider, { locale: 'fr' }, { order: 10 });
+    universalReactRenderer.addProvider(ThemeProvider, { theme: 'dark' });
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Label', containerId: 'app' });
+    });
+
+    expect(text()).toBe('dark/fr');
+    expect(universalReactRenderer.getProviders().map(({ name }) => name)).toEqual([
+      'ThemeProvider',
+      'LocaleProvider',
+    ]);
+  });
+
+  it('should let definitions opt out of all or named providers', async () => {
+    universalReactRenderer.addProvider(ThemeProvider, { theme: 'dark' });
+    universalReactRenderer.addProvider(LocaleProvider, { locale: 'fr' }, { name: 'locale' });
+    await componentRegistry.register({
+      name: 'NoLocale',
+      component: Label,
+      config: { skipProviders: ['locale'] },
+    });
+    await componentRegistry.register({
+      name: 'Bare',
+      component: Label,
+      config: { skipProviders: true },
+    });
+
+    act(() => {
+      universalReactRenderer.render({ component: 'NoLocale', containerId: 'app' });
+    });
+    expect(text()).toBe('dark/none');
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Bare', containerId: 'app' });
+    });
+    expect(text()).toBe('none/none');
+  });
+
+  it('should remove providers through the returned function or by name', () => {
+    const removeTheme = universalReactRenderer.addProvider(ThemeProvider, { theme: 'dark' });
+    universalReactRenderer.addProvider(LocaleProvider, { locale: 'fr' });
+
+    removeTheme();
+    expect(universalReactRenderer.removeProvider('LocaleProvider')).toBe(true);
+    expect(universalReactRenderer.removeProvider('LocaleProvider')).toBe(false);
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Label', containerId: 'app' });
+    });
+    expect(text()).toBe('none/none');
+  });
+
+  it('should keep providers inside the error boundary', () => {
+    const Broken = ({ children }: { children?: React.ReactNode }) => {
+      if (children) throw new Error('Provider failed');
+      return null;
+    };
+    universalReactRenderer.addProvider(Broken);
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Label', containerId: 'app' });
+    });
+
+    expect(document.querySelector('[role="alert"]')?.textContent).toContain('Provider failed');
+  });
+});
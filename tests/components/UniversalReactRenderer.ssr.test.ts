@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { renderComponentToString } from '../../resources/js/ssr/server';
+import { devTools } from '../../resources/js/services/DevTools';
+
+const Counter = ({ start = 0 }: { start?: number }) => {
+  const [count, setCount] = React.useState(start);
+  return React.createElement('button', { onClick: () => setCount(count + 1) }, `Count ${count}`);
+};
+
+describe('UniversalReactRenderer - Server-side Rendering', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    devTools.clear();
+    document.body.innerHTML = '';
+    await componentRegistry.register({
+      name: 'Counter',
+      component: Counter,
+      config: { ssr: true },
+    });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+  });
+
+  it('should render ssr-enabled components to HTML', async () => {
+    await componentRegistry.register({
+      name: 'LazyCounter',
+      component: async () => ({ default: Counter }),
+      isAsync: true,
+      config: { lazy: true, ssr: true },
+    });
+    await componentRegistry.register({ name: 'ClientOnly', component: Counter });
+
+    expect(await renderComponentToString('Counter', { start: 2 })).toContain('Count 2');
+    expect(await renderComponentToString('LazyCounter', { start: 3 })).toContain('Count 3');
+    await expect(renderComponentToString('ClientOnly')).rejects.toThrow(
+      'is not enabled for server-side rendering'
+    );
+    await expect(renderComponentToString('Missing')).rejects.toThrow('not found in registry');
+  });
+
+  it('should hydrate server markup in place', async () => {
+    const html = await renderComponentToString('Counter', { start: 5 });
+    document.body.innerHTML = `<div id="app" data-react-ssr="true">${html}</div>`;
+    const serverButton = document.querySelector('#app button');
+
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Counter',
+        props: { start: 5 },
+        containerId: 'app',
+      });
+    });
+
+    const button = document.querySelector<HTMLElement>('#app button')!;
+    expect(button).toBe(serverButton);
+    expect(document.getElementById('app')?.dataset.reactSsr).toBeUndefined();
+
+    act(() => button.click());
+    expect(button.textContent).toBe('Count 6');
+    expect(devTools.getHydrationMismatches()).toHaveLength(0);
+  });
+
+  it('should report hydration mismatches to DevTools', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const html = await renderComponentToString('Counter', { start: 1 });
+    document.body.innerHTML = `<div id="app" data-react-ssr="true">${html}</div>`;
+
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Counter',
+        props: { start: 9 },
+        containerId: 'app',
+      });
+    });
+
+    expect(document.getElementById('app')?.textContent).toBe('Count 9');
+    expect(devTools.getHydrationMismatches('app')[0]).toMatchObject({
+      containerId: 'app',
+      componentName: 'Counter',
+    });
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { FilamentReactAdapter } from '../../resources/js/components/adapters/FilamentReactAdapter';
+import { PropValidationError } from '../../resources/js/services/PropValidationService';
+import type { IErrorFallbackProps } from '../../resources/js/interfaces/IComponentRegistry';
+
+const Counter = ({ count, enabled }: { count?: unknown; enabled?: unknown }) =>
+  React.createElement('p', null, `${typeof count} ${count} ${typeof enabled} ${enabled}`);
+
+const propSchema = {
+  type: 'object' as const,
+  properties: {
+    count: { type: 'integer' as const },
+    enabled: { type: 'boolean' as const },
+  },
+  required: ['count'],
+};
+
+const flush = () =>
+  act(async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+
+describe('UniversalReactRenderer - Prop Validation', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    document.body.innerHTML = '<div id="counter"></div>';
+    await componentRegistry.register({ name: 'Counter', component: Counter, propSchema });
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmountAll());
+    universalReactRenderer.configure({ errorFallback: undefined });
+    FilamentReactAdapter.cleanup();
+  });
+
+  it('should report invalid props to onError and render the validation fallback', () => {
+    const onError = vi.fn();
+
+    act(() => {
+      universalReactRenderer.render({
+        component: 'Counter',
+        props: { count: 'many' },
+        containerId: 'counter',
+        onError,
+      });
+    });
+
+    const error = onError.mock.calls[0]![0];
+    expect(error).toBeInstanceOf(PropValidationError);
+    expect(error.errors[0]).toMatchObject({ path: 'count' });
+    expect(document.getElementById('counter')?.textContent).toContain('Invalid Component Props');
+  });
+
+  it('should render the configured error fallback for invalid props', () => {
+    const Fallback = ({ error, componentName }: IErrorFallbackProps) =>
+      React.createElement('em', null, `${componentName}: ${error.name}`);
+    universalReactRenderer.configure({ errorFallback: Fallback });
+
+    act(() => {
+      universalReactRenderer.render({ component: 'Counter', props: {}, containerId: 'counter' });
+    });
+
+    expect(document.getElementById('counter')?.textContent).toBe(
+      `Counter: ${new PropValidationError('Counter', []).name}`
+    );
+  });
+
+  it('should pass coerced Blade values to components mounted by the adapter', async () => {
+    document.body.innerHTML = `<div id="counter" data-react-component="Counter" data-react-props='{"count":"5","enabled":"false"}'></div>`;
+
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    expect(document.getElementById('counter')?.textContent).toBe('number 5 boolean false');
+  });
+
+  it('should dispatch react-error with the structured errors from the adapter', async () => {
+    const errors = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    document.body.innerHTML = `<div id="counter" data-react-component="Counter" data-react-props='{"enabled":"maybe"}'></div>`;
+    document.body.addEventListener('react-error', errors);
+
+    FilamentReactAdapter.initializeComponents();
+    await flush();
+
+    expect(errors).toHaveBeenCalledTimes(1);
+    const detail = errors.mock.calls[0]![0].detail;
+    expect(detail.componentName).toBe('Counter');
+    expect(detail.errors.map((error: { path: string }) => error.path).sort()).toEqual([
+      'count',
+      'enabled',
+    ]);
+    document.body.removeEventListener('react-error', errors);
+    vi.mocked(console.error).mockRestore();
+  });
+});
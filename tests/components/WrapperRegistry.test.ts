@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import React from 'react';
+import { act } from '@testing-library/react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { universalReactRenderer } from '../../resources/js/components/UniversalReactRenderer';
+import { wrapperRegistry } from '../../resources/js/components/WrapperRegistry';
+
+const Chart = () => React.createElement('canvas', { 'data-chart': true });
+
+const ThemeProvider = ({ children, theme }: { children?: React.ReactNode; theme?: string }) =>
+  React.createElement('div', { 'data-theme': theme ?? 'light' }, children);
+
+describe('WrapperRegistry', () => {
+  beforeEach(() => {
+    componentRegistry.clear();
+    wrapperRegistry.register('theme-provider', ThemeProvider);
+    document.body.innerHTML = '<div id="wrapped"></div>';
+  });
+
+  afterEach(() => {
+    act(() => universalReactRenderer.unmount('wrapped'));
+    wrapperRegistry.unregister('theme-provider');
+  });
+
+  it('should stack named wrappers outermost-first with their own props', async () => {
+    await componentRegistry.register({
+      name: 'Chart',
+      component: Chart,
+      config: { wrapper: ['theme-provider', 'card'] },
+    });
+
+    await act(async () => {
+      universalReactRenderer.render({
+        component: 'Chart',
+        containerId: 'wrapped',
+        wrapperProps: { card: { heading: 'Revenue' }, 'theme-provider': { theme: 'dark' } },
+      });
+    });
+
+    const theme = document.querySelector('[data-theme]')!;
+    expect(theme.getAttribute('data-theme')).toBe('dark');
+    expect(theme.firstElementChild?.classList.contains('fi-section')).toBe(true);
+    expect(theme.querySelector('h3')?.textContent).toBe('Revenue');
+    expect(theme.querySelector('[data-chart]')).not.toBeNull();
+  });
+
+  it('should accept wrapper components and skip unknown names', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await componentRegistry.register({
+      name: 'Chart',
+      component: Chart,
+      config: { wrapper: [ThemeProvider, 'missing'] },
+    });
+
+    await act(async () => {
+      universalReactRenderer.render({ component: 'Chart', containerId: 'wrapped' });
+    });
+
+    expect(document.querySelector('[data-theme="light"] [data-chart]')).not.toBeNull();
+    expect(warn).toHaveBeenCalledWith('Component wrapper "missing" is not registered');
+    warn.mockRestore();
+  });
+});
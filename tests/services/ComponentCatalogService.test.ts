@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import { listComponents } from '../../resources/js/components/SimpleRegistration';
+
+const TestComponent = () => React.createElement('div', null, 'Test');
+
+describe('ComponentCatalogService', () => {
+  beforeEach(async () => {
+    componentRegistry.clear();
+    await Promise.all([
+      componentRegistry.register({
+        name: 'LineChart',
+        component: TestComponent,
+        config: { version: '2.1.0' },
+        metadata: {
+          category: 'charts',
+          tags: ['chart', 'time-series'],
+          description: 'Plots values over time',
+          examples: [{ name: 'Revenue', props: { series: [] } }],
+        },
+      }),
+      componentRegistry.register({
+        name: 'PieChart',
+        component: TestComponent,
+        metadata: { category: 'charts', tags: ['chart'], description: 'Shows proportions' },
+      }),
+      componentRegistry.register({
+        name: 'UserTable',
+        component: TestComponent,
+        metadata: { category: 'data', tags: ['table', 'time-series'], docs: 'Sortable user list' },
+      }),
+    ]);
+  });
+
+  it('should combine tag AND/OR filters', () => {
+    const names = (query: Parameters<typeof componentRegistry.query>[0]) =>
+      componentRegistry.query(query).items.map(definition => definition.name);
+
+    expect(names({ tags: { all: ['chart', 'time-series'] } })).toEqual(['LineChart']);
+    expect(names({ tags: { any: ['table', 'chart'] } })).toEqual([
+      'LineChart',
+      'PieChart',
+      'UserTable',
+    ]);
+    expect(names({ tags: { any: ['time-series'], none: ['chart'] } })).toEqual(['UserTable']);
+  });
+
+  it('should rank full-text matches by relevance', () => {
+    const result = componentRegistry.query({ search: 'time' });
+
+    expect(result.items.map(definition => definition.name)).toEqual(['LineChart', 'UserTable']);
+    expect(componentRegistry.query({ search: 'sortable user' }).total).toBe(1);
+  });
+
+  it('should sort and paginate results', () => {
+    const result = componentRegistry.query({
+      sortBy: 'name',
+      sortOrder: 'desc',
+      perPage: 2,
+      page: 2,
+    });
+
+    expect(result).toMatchObject({ total: 3, page: 2, perPage: 2, pages: 2 });
+    expect(result.items.map(definition => definition.name)).toEqual(['LineChart']);
+  });
+
+  it('should export a JSON catalog', () => {
+    const catalog = JSON.parse(JSON.stringify(componentRegistry.exportCatalog()));
+
+    expect(catalog.total).toBe(3);
+    expect(catalog.categories).toEqual({ charts: 2, data: 1 });
+    expect(catalog.components[0]).toMatchObject({
+      name: 'LineChart',
+      version: '2.1.0',
+      examples: [{ name: 'Revenue', props: { series: [] } }],
+    });
+  });
+
+  it('should list components by category or query', () => {
+    expect(Object.keys(listComponents('charts'))).toEqual(['LineChart', 'PieChart']);
+    expect(Object.keys(listComponents({ search: 'proportions' }))).toEqual(['PieChart']);
+    expect(Object.keys(listComponents())).toHaveLength(3);
+  });
+});
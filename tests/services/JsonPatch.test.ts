@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonPatch, JsonPatchError } from '../../resources/js/services/JsonPatch';
+
+describe('JsonPatch', () => {
+  const document = {
+    title: 'Orders',
+    filters: { status: 'open', tags: ['new'] },
+    rows: [{ id: 1 }, { id: 2 }],
+  };
+
+  it('should apply operations without mutating the document', () => {
+    const patched = applyJsonPatch(document, [
+      { op: 'replace', path: '/title', value: 'Open orders' },
+      { op: 'add', path: '/rows/-', value: { id: 3 } },
+      { op: 'remove', path: '/rows/0' },
+      { op: 'copy', from: '/filters/status', path: '/status' },
+      { op: 'move', from: '/filters/tags', path: '/tags' },
+      { op: 'add', path: '/tags/0', value: 'urgent' },
+    ]);
+
+    expect(patched).toEqual({
+      title: 'Open orders',
+      status: 'open',
+      filters: { status: 'open' },
+      rows: [{ id: 2 }, { id: 3 }],
+      tags: ['urgent', 'new'],
+    });
+    expect(document.rows).toHaveLength(2);
+    expect(document.filters.tags).toEqual(['new']);
+    expect(patched.rows[0]).toBe(document.rows[1]);
+  });
+
+  it('should unescape pointer tokens and run tests', () => {
+    const patched = applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [
+      { op: 'test', path: '/a~1b', value: 1 },
+      { op: 'replace', path: '/c~0d', value: 3 },
+    ]);
+
+    expect(patched).toEqual({ 'a/b': 1, 'c~d': 3 });
+    expect(() => applyJsonPatch(patched, [{ op: 'test', path: '/a~1b', value: 2 }])).toThrow(
+      JsonPatchError
+    );
+  });
+
+  it('should reject operations on missing paths', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '/missing', value: 1 }])).toThrow(
+      /Path not found/
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/rows/5', value: 1 }])).toThrow(
+      /out of bounds/
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/filters/none' }])).toThrow(
+      JsonPatchError
+    );
+  });
+});
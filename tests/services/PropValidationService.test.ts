@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { componentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+import {
+  propValidationService,
+  PropValidationError,
+} from '../../resources/js/services/PropValidationService';
+
+const TestComponent = () => React.createElement('div', null, 'Test');
+
+describe('PropValidationService', () => {
+  beforeEach(() => {
+    componentRegistry.clear();
+  });
+
+  it('should coerce Blade-serialised strings', () => {
+    const result = propValidationService.validate(
+      {
+        type: 'object',
+        properties: {
+          count: { type: 'integer' },
+          enabled: { type: 'boolean' },
+          since: { type: 'date' },
+          options: { type: 'object' },
+        },
+      },
+      { count: '5', enabled: 'false', since: '2025-01-01', options: [] }
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.value.count).toBe(5);
+    expect(result.value.enabled).toBe(false);
+    expect(result.value.since).toBeInstanceOf(Date);
+    expect(result.value.options).toEqual({});
+  });
+
+  it('should report structured errors', () => {
+    const result = propValidationService.validate(
+      {
+        type: 'object',
+        required: ['title'],
+        properties: {
+          size: { type: 'string', enum: ['sm', 'lg'] },
+          items: { type: 'array', items: { type: 'number' } },
+        },
+      },
+      { size: 'xl', items: [1, 'two'] }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => `${error.path}:${error.keyword}`)).toEqual([
+      'size:enum',
+      'items[1]:type',
+      'title:required',
+    ]);
+  });
+
+  it('should apply schema defaults', () => {
+    const result = propValidationService.validate(
+      { type: 'object', properties: { theme: { type: 'string', default: 'light' } } },
+      {}
+    );
+
+    expect(result.value.theme).toBe('light');
+  });
+
+  it('should validate registered component props', () => {
+    componentRegistry.register({
+      name: 'Counter',
+      component: TestComponent,
+      propSchema: {
+        type: 'object',
+        required: ['start'],
+        properties: { start: { type: 'number', minimum: 0 } },
+      },
+    });
+
+    expect(componentRegistry.validateProps('Counter', { start: '3' }).value.start).toBe(3);
+    expect(componentRegistry.validateProps('Counter', { start: -1 }).valid).toBe(false);
+    expect(componentRegistry.create('Counter', {})).toBeNull();
+    expect(componentRegistry.create('Counter', { start: 1 })).not.toBeNull();
+  });
+
+  it('should read propTypes as shorthand property schemas', () => {
+    componentRegistry.register({
+      name: 'Legacy',
+      component: TestComponent,
+      propTypes: { visible: 'boolean' },
+    });
+
+    const result = componentRegistry.validateProps('Legacy', { visible: 'yes' });
+    expect(result.valid).toBe(true);
+    expect(result.value.visible).toBe(true);
+  });
+
+  it('should describe all errors in PropValidationError', () => {
+    const error = new PropValidationError('Counter', [
+      { path: 'start', keyword: 'required', message: 'Is required' },
+    ]);
+
+    expect(error.message).toContain('start: Is required');
+    expect(error.errors).toHaveLength(1);
+  });
+});
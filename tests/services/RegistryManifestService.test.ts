@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import React from 'react';
+import { ReactComponentRegistry } from '../../resources/js/components/ReactComponentRegistry';
+
+const TestComponent = () => React.createElement('div', null, 'Test');
+
+describe('RegistryManifestService', () => {
+  let registry: ReactComponentRegistry;
+
+  beforeEach(async () => {
+    registry = new ReactComponentRegistry();
+    await registry.register({
+      name: 'Chart',
+      component: TestComponent,
+      defaultProps: { height: 200 },
+      config: { version: '1.2.0', preload: true, middleware: [component => component] },
+      metadata: { category: 'charts', tags: ['chart'] },
+    });
+  });
+
+  it('should round-trip a registry through its manifest', async () => {
+    const manifest = JSON.parse(JSON.stringify(registry.toManifest()));
+
+    expect(manifest.components.Chart).toMatchObject({
+      name: 'Chart',
+      version: '1.2.0',
+      lazy: false,
+      config: { version: '1.2.0', preload: true },
+      defaultProps: { height: 200 },
+    });
+    expect(manifest.components.Chart.config).not.toHaveProperty('middleware');
+
+    const loader = vi.fn(() => () => Promise.resolve({ default: TestComponent }));
+    const rehydrated = new ReactComponentRegistry();
+    await rehydrated.fromManifest(manifest, { loader });
+
+    expect(rehydrated.get('Chart')).toMatchObject({
+      isAsync: true,
+      config: { version: '1.2.0', lazy: true },
+      metadata: { category: 'charts', tags: ['chart'] },
+    });
+    expect(rehydrated.isLoaded('Chart')).toBe(false);
+    expect(rehydrated.diffManifest(manifest).versionMismatches).toEqual([]);
+  });
+
+  it('should create lazy stubs from the PHP registry output', async () => {
+    const loader = vi.fn(() => () => Promise.resolve({ default: TestComponent }));
+
+    await registry.fromManifest(
+      {
+        Chart: { component: 'Chart', config: { version: '9.9.9' } },
+        UserTable: { component: 'tables/UserTable', config: { version: '2.0.0', lazy: true } },
+      },
+      { loader }
+    );
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(registry.get('Chart')?.config?.version).toBe('1.2.0');
+    expect(registry.get('UserTable')).toMatchObject({ chunk: 'tables/UserTable', isAsync: true });
+
+    await registry.load('UserTable');
+    expect(registry.isLoaded('UserTable')).toBe(true);
+  });
+
+  it('should diff the registry against another manifest', () => {
+    const diff = registry.diffManifest({
+      Chart: { component: 'Chart', config: { version: '2.0.0' } },
+      Map: { component: 'Map' },
+    });
+
+    expect(diff).toEqual({
+      onlyLeft: [],
+      onlyRight: ['Map'],
+      versionMismatches: [{ name: 'Chart', left: '1.2.0', right: '2.0.0' }],
+    });
+    expect(registry.diffManifest({}).onlyLeft).toEqual(['Chart']);
+  });
+});
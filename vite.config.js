@@ -46,12 +46,14 @@ export default defineConfig({
         lib: {
             entry: {
                 'index': resolve(__dirname, 'resources/js/index.tsx'),
+                'vite': resolve(__dirname, 'resources/js/vite/plugin.ts'),
+                'ssr': resolve(__dirname, 'resources/js/ssr/server.ts'),
             },
             formats: ['es'],
             fileName: (format, entryName) => `${entryName}.${format}.js`,
         },
         rollupOptions: {
-            external: ['react', 'react-dom'],
+            external: ['react', 'react-dom', 'react-dom/client', 'react-dom/server', 'vite'],
             output: {
                 globals: {
                     react: 'React',